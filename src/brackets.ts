@@ -0,0 +1,121 @@
+/*
+ * Helpers for finding the pairs of brackets (`()`, `[]` and `{}`) in a document.
+ *
+ * Since the language of the document is not known, the brackets in strings and comments are skipped
+ * in a simple way that works for most languages. A string is from a `"` or `` ` `` to the next one of
+ * the same quote on the same line, with a `\` escaping the character after it. A quote that is not 
+ * closed on its line is not the start of a string. A `'` is never the start of a string, since it is
+ * just as often an apostrophe in prose or comments. A comment is either from `//` (or a `#` followed 
+ * by whitespace) to the end of the line, or a block comment that starts with `/*`.
+ */
+
+import { TextDocument } from 'vscode';
+
+const CLOSING_BRACKETS: { readonly [opening: string]: string } = { '(': ')', '[': ']', '{': '}' };
+
+const QUOTES = ['"', '`'];
+
+/** A pair of brackets, as the offsets of the opening and closing bracket. */
+export type BracketPair = { readonly open: number, readonly close: number };
+
+/**
+ * Find the pairs of brackets in `text`, in the order of their closing brackets.
+ *
+ * A closing bracket is only paired with the innermost opening bracket that is not yet closed, and
+ * only if they are the same kind of bracket. Otherwise it is ignored. An opening bracket that is
+ * never closed is not in any pair.
+ */
+export function findBracketPairs(text: string): BracketPair[] {
+    const pairs: BracketPair[] = [];
+    // The offsets of the opening brackets that are not yet closed, with the innermost one last
+    const opened: number[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (QUOTES.includes(char)) {
+            i = afterString(i);
+        } else if (text.startsWith('//', i) || (char === '#' && /^\s?$/.test(text.slice(i + 1, i + 2)))) {
+            i = endOfLine(i);
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 2;
+        } else {
+            if (CLOSING_BRACKETS.hasOwnProperty(char)) {
+                opened.push(i);
+            } else if (opened.length > 0 && CLOSING_BRACKETS[text[opened[opened.length - 1]]] === char) {
+                pairs.push({ open: opened.pop() as number, close: i });
+            }
+            ++i;
+        }
+    }
+    return pairs;
+
+    /** Get the offset after the string that starts with the quote at `start`. */
+    function afterString(start: number): number {
+        const end = endOfLine(start);
+        for (let j = start + 1; j < end; ++j) {
+            if (text[j] === '\\') {
+                ++j;
+            } else if (text[j] === text[start]) {
+                return j + 1;
+            }
+        }
+        // An unclosed quote is only an ordinary character
+        return start + 1;
+    }
+
+    function endOfLine(start: number): number {
+        const end = text.indexOf('\n', start);
+        return end === -1 ? text.length : end;
+    }
+}
+
+/** 
+ * The pairs of brackets found in each document, which are kept until the document is changed, so
+ * that the document is not scanned again on every keystroke in the dialog.
+ */
+const cachedPairs = new WeakMap<Readonly<TextDocument>, { readonly version: number, readonly pairs: BracketPair[] }>();
+
+/** Get the pairs of brackets in `document` (see `findBracketPairs`). */
+function bracketPairsOf(document: Readonly<TextDocument>): BracketPair[] {
+    const cached = cachedPairs.get(document);
+    if (cached && cached.version === document.version) {
+        return cached.pairs;
+    }
+    const pairs = findBracketPairs(document.getText());
+    cachedPairs.set(document, { version: document.version, pairs });
+    return pairs;
+}
+
+/**
+ * Find the bracket that is paired with the bracket at `offset` in `document`. Like Vim's `%`, if 
+ * there is no paired bracket at `offset`, then the first one after it on the same line is used 
+ * instead.
+ *
+ * @return The offset of the matching bracket, or `undefined` if there is no paired bracket from
+ *         `offset` to the end of its line.
+ */
+export function findMatchingBracket(document: Readonly<TextDocument>, offset: number): number | undefined {
+    const lineEnd = document.offsetAt(document.lineAt(document.positionAt(offset)).range.end);
+    let nearest: number | undefined;
+    let match:   number | undefined;
+    for (const { open, close } of bracketPairsOf(document)) {
+        for (const [ bracket, other ] of [ [ open, close ], [ close, open ] ]) {
+            if (bracket >= offset && bracket < lineEnd && (nearest === undefined || bracket < nearest)) {
+                nearest = bracket;
+                match   = other;
+            }
+        }
+    }
+    return match;
+}
+
+/**
+ * Find the innermost pair of brackets in `document` that encloses `offset`, which is any pair whose
+ * opening bracket is before `offset` and whose closing bracket is at or after it.
+ */
+export function findEnclosingPair(document: Readonly<TextDocument>, offset: number): BracketPair | undefined {
+    return bracketPairsOf(document)
+        .filter(({ open, close }) => open < offset && offset <= close)
+        .reduce<BracketPair | undefined>((inner, pair) => inner === undefined || pair.open > inner.open ? pair : inner, undefined);
+}
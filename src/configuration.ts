@@ -1,7 +1,10 @@
 import { ThemeColor } from 'vscode';
-import { EXT_IDENT } from './extension';
 import { ConfigurationHandler } from '@onlylys/vscode-configuration-handler';
 import { TERMINAL } from './grammar/terminal';
+import { Syntax, SYNTAX_PROFILES, resolveSyntax } from './grammar/profile';
+
+export const EXT_NAME  = 'Select to Line...';           // Extension name
+export const EXT_IDENT = 'select-to-line';           // Extension identifier
 
 /** Class containing a readonly snapshot of the configuration values of this extension. */
 export class Configuration {
@@ -24,12 +27,44 @@ export class Configuration {
     /** The default behavior to use for the character term if it is omitted. */
     public readonly defaultCharacterBehavior: TERMINAL;
 
+    /** The offset of the first character of the document in an offset term (either `0` or `1`). */
+    public readonly offsetBase: number;
+
+    /** Whether the numbers of character terms are visual columns instead of character numbers. */
+    public readonly visualColumns: boolean;
+
+    /** 
+     * Whether character terms count grapheme clusters (user-perceived characters) instead of UTF-16 
+     * code units. 
+     */
+    public readonly countGraphemeClusters: boolean;
+
+    /** 
+     * Whether every target is resolved against each of the cursors instead of only the primary one,
+     * as if every target had a per cursor prefix.
+     */
+    public readonly perCursor: boolean;
+
+    /** 
+     * The symbols that the terminals are typed as, which are those of the selected syntax profile 
+     * with the user's own symbols assigned on top.
+     */
+    public readonly syntax: Syntax;
+
     private constructor() {
         this.pseudocursorColor        = pseudocursorColorHandler.get().effectiveValue;
         this.selectionHighlightColor  = selectionHighlightColorHandler.get().effectiveValue;
         this.goToLineHighlightColor   = goToLineHighlightColorHandler.get().effectiveValue;
         this.viewportChangeDelay      = viewportChangeDelayHandler.get().effectiveValue;
         this.defaultCharacterBehavior = defaultCharacterBehaviorHandler.get().effectiveValue;
+        this.offsetBase               = offsetBaseHandler.get().effectiveValue;
+        this.visualColumns            = visualColumnsHandler.get().effectiveValue;
+        this.countGraphemeClusters    = countGraphemeClustersHandler.get().effectiveValue;
+        this.perCursor                = perCursorHandler.get().effectiveValue;
+        this.syntax                   = resolveSyntax(
+            syntaxProfileHandler.get().effectiveValue, 
+            terminalsHandler.get().effectiveValue
+        );
     }
 
     /** Get the latest values of the extension's settings. */
@@ -44,17 +79,17 @@ function isColorType(value: any): value is (string | ThemeColor) {
 }
 
 export const pseudocursorColorHandler = new ConfigurationHandler<string | ThemeColor>({
-    name: `${EXT_IDENT}.pseudocursorColor`,
+    name: `${EXT_IDENT}.colors.pseudocursor`,
     typecheck: isColorType
 });
 
 export const selectionHighlightColorHandler = new ConfigurationHandler<string | ThemeColor>({
-    name: `${EXT_IDENT}.selectionHighlightColor`,
+    name: `${EXT_IDENT}.colors.selectionHighlight`,
     typecheck: isColorType
 });
 
 export const goToLineHighlightColorHandler = new ConfigurationHandler<string | ThemeColor>({
-    name: `${EXT_IDENT}.goToLineHighlightColor`,
+    name: `${EXT_IDENT}.colors.goToLineHighlight`,
     typecheck: isColorType
 });
 
@@ -73,8 +108,42 @@ const DEFAULT_CHARACTER_BEHAVIOR_TERMINALS = [
 ];
 
 export const defaultCharacterBehaviorHandler = new ConfigurationHandler<TERMINAL>({
-    name: `${EXT_IDENT}.defaultCharacterBehavior`,
+    name: `${EXT_IDENT}.defaultHorizontalBehavior`,
     typecheck: (value: any): value is TERMINAL => {
         return DEFAULT_CHARACTER_BEHAVIOR_TERMINALS.includes(value);
     }
 });
+
+export const offsetBaseHandler = new ConfigurationHandler<number>({
+    name: `${EXT_IDENT}.offsetBase`,
+    typecheck: (value: any): value is number => value === 0 || value === 1
+});
+
+export const visualColumnsHandler = new ConfigurationHandler<boolean>({
+    name: `${EXT_IDENT}.visualColumns`,
+    typecheck: (value: any): value is boolean => typeof value === 'boolean'
+});
+
+export const countGraphemeClustersHandler = new ConfigurationHandler<boolean>({
+    name: `${EXT_IDENT}.countGraphemeClusters`,
+    typecheck: (value: any): value is boolean => typeof value === 'boolean'
+});
+
+export const perCursorHandler = new ConfigurationHandler<boolean>({
+    name: `${EXT_IDENT}.perCursor`,
+    typecheck: (value: any): value is boolean => typeof value === 'boolean'
+});
+
+export const syntaxProfileHandler = new ConfigurationHandler<string>({
+    name: `${EXT_IDENT}.syntaxProfile`,
+    typecheck: (value: any): value is string => SYNTAX_PROFILES.hasOwnProperty(value)
+});
+
+export const terminalsHandler = new ConfigurationHandler<{ [name: string]: string }>({
+    name: `${EXT_IDENT}.terminals`,
+    typecheck: (value: any): value is { [name: string]: string } => {
+        return typeof value === 'object' 
+            && value !== null 
+            && Object.values(value).every(symbol => typeof symbol === 'string');
+    }
+});
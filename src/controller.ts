@@ -1,107 +1,324 @@
 import { Revealer } from './revealer';
-import { Dialog } from './dialog';
-import { Selection, TextEditor, Disposable, Position } from 'vscode';
+import { Dialog, Feedback } from './dialog';
+import { Selection, TextEditor, Disposable, Position, Range, TextDocument, Uri, window, workspace } from 'vscode';
 import { EXT_NAME } from './extension';
 import { Configuration } from './configuration';
 import { parseInput } from './finite-automation/parse-input';
-import { TERMINALS } from './grammar/terminal';
+import { describeRejection, IncrementalFiniteAutomation } from './finite-automation/finite-automation';
+import { Terminals } from './grammar/terminal';
+import { Marks } from './marks';
+import { getDocumentSymbols } from './symbols';
+import { characterIndexToGraphemeIndex } from './grapheme-clusters';
+import { FileTarget, splitFileTarget, splitPath, looksLikePath, getWorkspaceFiles, fuzzyMatchPaths } from './file-target';
+
+/** The most number of paths that are suggested for an input that looks like a path. */
+const MAX_PATH_SUGGESTIONS = 3;
 
 export class Controller {
 
     private disposables: Disposable[] = [];
 
-    /** Show a dialog that takes in input and reveals the specified range. */
+    /** @param marks The marks that can be referred to by the input. */
+    public constructor(private readonly marks: Marks) {}
+
+    /** 
+     * Show a dialog that takes in input and reveals the specified range. 
+     * 
+     * An input that starts with the path of a file (see `splitFileTarget`) is applied to that file
+     * instead of the document of `editor`. While the dialog is open, the file is shown as a preview
+     * in the column of `editor`.
+     */
     public show(editor: TextEditor): void {
         this.dispose();
         const configuration = Configuration.get();
-        const revealer = new Revealer(editor, configuration);
+        const { syntax } = configuration;
+        if (!syntax.ok) {
+            this.showDisabled(`Invalid ${EXT_NAME} syntax settings: ${syntax.message}`);
+            return;
+        }
+        const { terminals } = syntax;
+        const finiteAutomation = new IncrementalFiniteAutomation(terminals);
+        /* The state of each document that has been targeted is kept until the dialog is closed, so
+        that none of it is lost when switching back and forth between documents. */
+        const documents = new Map<string, DocumentState>();
+        const stateOf = ({ document, visibleRanges }: TextEditor) => {
+            let state = documents.get(document.uri.toString());
+            if (!state) {
+                state = newDocumentState(document, visibleRanges);
+                documents.set(document.uri.toString(), state);
+            }
+            return state;
+        };
+        const home = stateOf(editor);
+        /* The document that inputs are currently applied to. A document can be shown in a different 
+        editor each time it is switched to, so the editor and its revealer are replaced on each 
+        switch. */
+        let current: Target = { editor, state: home, revealer: new Revealer(editor, configuration) };
+        this.disposables.push({ dispose: () => current.revealer.dispose() });
+        const isCurrent = (uri: Uri) => current.editor.document.uri.toString() === uri.toString();
+        /* Each input is parsed at least twice if it is accepted (once when validated and again when 
+        accepted), so the results are memoized. Everything else that a result depends on is fixed 
+        while the dialog is open, except for the symbols. But an input that refers to symbols is 
+        only ever parsed once the symbols have arrived. */
+        const parse = (input: string, symbols: ReadonlyMap<string, Position> = new Map()) => {
+            const { editor, state } = current;
+            if (!state.results.has(input)) {
+                const marks = this.marks.of(editor.document);
+                state.results.set(input, parseInput(input, editor, configuration, marks, symbols, state.viewport, finiteAutomation));
+            }
+            return state.results.get(input);
+        };
+        /* Used to tell if a validation is still the latest one by the time the document or the 
+        symbols that it is waiting for arrive. */
+        let latestValidation = 0;
+        let isHidden = false;
+        /* Showing a document takes a while, so the switches between documents are chained to make 
+        sure that they happen in the order that they were requested. */
+        let switching: Thenable<void> | undefined;
+        const open = (uri: Uri): Thenable<void> => {
+            // The viewport is restored so that the document is as it was when it is switched back to
+            current.revealer.clear(true);
+            return window.showTextDocument(uri, { preview: true, preserveFocus: true, viewColumn: editor.viewColumn }).then(
+                shown => {
+                    current.revealer.dispose();
+                    current = { editor: shown, state: stateOf(shown), revealer: new Revealer(shown, configuration) };
+                },
+                // A document that cannot be shown (such as a binary file) is never switched to
+                () => undefined
+            );
+        };
+        /** Switch to the document of `uri`. A `Thenable` is only returned if that has to wait. */
+        const switchTo = (uri: Uri): Thenable<void> | undefined => {
+            if (!switching && isCurrent(uri)) {
+                return undefined;
+            }
+            const next: Thenable<void> = (switching || Promise.resolve())
+                .then(() => isHidden || isCurrent(uri) ? undefined : open(uri))
+                .then(() => {
+                    if (switching === next) {
+                        switching = undefined;
+                    }
+                });
+            return switching = next;
+        };
+        /** 
+         * Call `callback` once the document of `target` is the current one (if it could be shown) and
+         * its symbols have arrived (if the input refers to symbols). It is called right away if 
+         * neither has to be waited for.
+         */
+        const whenReady = <T>(
+            { uri, input }: FileTarget,
+            callback: (symbols?: ReadonlyMap<string, Position>) => T | Thenable<T>
+        ): T | Thenable<T> => {
+            const needsPendingSymbols = () => !current.state.symbols && input.includes(terminals.SYMBOL_PREFIX);
+            const switched = switchTo(uri);
+            if (!switched && !needsPendingSymbols()) {
+                return callback(current.state.symbols);
+            }
+            return (switched || Promise.resolve()).then(() => 
+                needsPendingSymbols() ? current.state.pendingSymbols.then(callback) : callback(current.state.symbols)
+            );
+        };
+        /* The paths in the workspace are only searched for once an input looks like a path. */
+        let pendingWorkspaceFiles: Thenable<string[]> | undefined;
+        const suggestPaths = (value: string) => {
+            if (!pendingWorkspaceFiles) {
+                pendingWorkspaceFiles = getWorkspaceFiles();
+            }
+            return pendingWorkspaceFiles.then(
+                files => fuzzyMatchPaths(splitPath(value).path, files, MAX_PATH_SUGGESTIONS), 
+                () => []
+            );
+        };
+        /** 
+         * Call `callback` with the target of `value`. It is called right away unless `value` looks 
+         * like a path, since only then does the file system have to be checked for the file.
+         */
+        const withTargetOf = <T>(value: string, callback: (target: FileTarget) => T | Thenable<T>): T | Thenable<T> => {
+            const inHome: FileTarget = { uri: editor.document.uri, input: value };
+            if (!looksLikePath(value, terminals)) {
+                return callback(inHome);
+            }
+            return splitFileTarget(value, terminals).then(target => callback(target || inHome));
+        };
+        const validate = (value: string, { uri, input }: FileTarget, symbols?: ReadonlyMap<string, Position>): Feedback | Thenable<Feedback> => {
+            if (!isCurrent(uri)) {
+                return { ok: false, message: `Unable to open ${uri.fsPath}.` };
+            }
+            const result = parse(input, symbols);
+            if (result) {
+                // The parser accepted the input, thus it contains valid targets in the document
+                current.revealer.revealTargets(result);
+                const message = result.length === 1 ? targetTextFrom(result[0]) : multipleTargetsTextFrom(result);
+                return { 
+                    ok: true, 
+                    message: current.state === home ? message : `${workspace.asRelativePath(uri)}: ${message}`
+                };
+            } 
+            /* The parser rejected the input, that means at this moment the input in the dialog is 
+            invalid. Thus we want to terminate all previously scheduled actions so that the viewport 
+            does not suddenly change later due to a previously correct input. */
+            current.revealer.clear();
+            const rejection = { 
+                ok: false, 
+                message: rejectionTextFrom(input, current.editor.document.lineCount) 
+            };
+            if (current.state !== home || !looksLikePath(value, terminals)) {
+                return rejection;
+            }
+            // The input might be the start of a path, so the paths that it could be are suggested
+            return suggestPaths(value).then(paths => paths.length === 0 ? rejection : {
+                ok: false,
+                message: `No such file. Press Enter to complete the path to: ${paths.join(' | ')}`
+            });
+        };
+        const accept = ({ uri, input }: FileTarget, symbols?: ReadonlyMap<string, Position>) => {
+            /* Just because the user wants to accept the input, doesn't mean we should. We have 
+            to check that the input is valid first. */
+            const result = isCurrent(uri) ? parse(input, symbols) : undefined;
+            if (result) {
+                // Since input is valid, we can change the cursors to the desired destinations
+                const { editor, state, revealer } = current;
+                editor.selections = result;
+                revealer.revealTargets(result, { noDecorate: true, noDelay: true });
+                if (state !== home) {
+                    // The document was only previewed so far, so it is kept open and focused
+                    window.showTextDocument(editor.document, { preview: false, viewColumn: editor.viewColumn });
+                }
+                return true;
+            } else {
+                /* If we get here, that means the parser rejected the input due to invalid syntax.
+                In this case we cannot close the dialog since we refuse to accept the input. */
+                return false;
+            }
+        };
         const dialog = new Dialog({
-            placeholder: USAGE_GUIDE,
+            placeholder: usageGuideFrom(terminals),
             validate: (value) => {
-                const result = parseInput(value, editor, configuration);
-                if (result) {
-                    // The parser accepted the input, thus it is a valid target in the document
-                    result.isEmpty ? revealer.revealLocation(result.active) : revealer.revealSelection(result);
-                    return { 
-                        ok: true, 
-                        message: result.isEmpty ? goToLineTextFrom(result.active) : selectionTextFrom(result)
-                    };
-                } else {
-                    /* The parser rejected the input, that means at this moment the input in the 
-                    dialog is invalid. Thus we want to terminate all previously scheduled actions so 
-                    that the viewport does not suddenly change later due to a previously correct
-                    input. */
-                    revealer.clear();
-                    return { 
-                        ok: false, 
-                        message: rejectionTextFrom(editor.document.lineCount) 
-                    };
-                }
+                const validation = ++latestValidation;
+                /* If the input has since changed, the feedback will be discarded by the dialog. We 
+                must not switch documents or reveal anything either, as that would override the 
+                reveal of the current input. */
+                const isStale = () => isHidden || validation !== latestValidation;
+                const discarded: Feedback = { ok: false, message: '' };
+                return withTargetOf<Feedback>(value, target => isStale() ? discarded : whenReady<Feedback>(
+                    target, 
+                    symbols => isStale() ? discarded : validate(value, target, symbols)
+                ));
             },
             onDidHideViaEscapeOrFocusChange: () => {
                 /* We restore the view after an `Escape` keypress or focus change to conform with the
-                behavior of VS Code's default 'Go To Line...' functionality. */
-                revealer.clear(true);   
+                behavior of VS Code's default 'Go To Line...' functionality. That includes leaving a
+                document that was only previewed for the one that the dialog was opened in. */
+                isHidden = true;
+                (switching || Promise.resolve()).then(() => {
+                    current.revealer.clear(true);
+                    if (current.state !== home) {
+                        window.showTextDocument(editor.document, { viewColumn: editor.viewColumn });
+                    }
+                });
             },
             onDidHideViaSelectionInterrupt: () => {
                 /* We do not need to restore the view after a click out because the user likely 
                 intended to select something of interest in the viewport. It makes no sense for us
                 to then take the user away from that. This behavior conforms with that of VS Code's
                 default 'Go To Line...' functionality. */
-                revealer.clear();
+                isHidden = true;
+                current.revealer.clear();
             },
             onDidAccept: (value) => {
-                /* Just because the user wants to accept the input, doesn't mean we should. We have 
-                to check that the input is valid first. */
-                const result = parseInput(value, editor, configuration);
-                if (result) {
-                    // Since input is valid, we can change the cursor to the desired destination
-                    editor.selection = result;
-                    if (result.isEmpty) {
-                        revealer.revealLocation(result.active, { noDecorate: true, noDelay: true });
-                    } else {
-                        revealer.revealSelection(result, { noDecorate: true, noDelay: true });
+                return withTargetOf<boolean>(value, target => whenReady<boolean>(target, symbols => {
+                    // The cursors must not move if the dialog was closed while waiting
+                    if (isHidden) {
+                        return false;
                     }
-                    return true;
-                } else {
-                    /* If we get here, that means the parser rejected the input due to invalid syntax.
-                    In this case we cannot close the dialog since we refuse to accept the input. */
-                    return false;
-                }
+                    if (accept(target, symbols)) {
+                        return true;
+                    }
+                    if (current.state !== home || !looksLikePath(value, terminals)) {
+                        return false;
+                    }
+                    // Complete the path to the best match, keeping whatever comes after it
+                    return suggestPaths(value).then(([ best ]) => {
+                        if (best !== undefined && !isHidden) {
+                            const { rest } = splitPath(value);
+                            dialog.setValue(`${best}:${rest !== undefined ? rest : ''}`);
+                        }
+                        return false;
+                    });
+                }));
+            },
+            onError: (value) => {
+                // As with a rejected input, nothing that was scheduled for a previous input may happen
+                current.revealer.clear();
+                return { 
+                    ok: false, 
+                    message: rejectionTextFrom(value, current.editor.document.lineCount) 
+                };
             }
         });
-        this.disposables.push(revealer, dialog);
+        this.disposables.push(dialog);
+
+        function targetTextFrom(target: Selection): string {
+            return target.isEmpty ? goToLineTextFrom(target.active) : selectionTextFrom(target);
+        }
+
+        function multipleTargetsTextFrom(targets: Selection[]): string {
+            return `${targets.length} Cursors: ${targets.map(targetTextFrom).join(' | ')}`;
+        }
 
         function goToLineTextFrom(target: Position): string {
-            return `Go to Line ${target.line + 1}, Character ${target.character + 1}`;
+            return `Go to Line ${target.line + 1}, Character ${characterNumberOf(target)}`;
         }
 
         function selectionTextFrom({ active, anchor }: Selection): string {
-            return `Select from Line ${anchor.line + 1}, Character ${anchor.character + 1} to \
-                Line ${active.line + 1}, Character ${active.character + 1}`;
+            return `Select from Line ${anchor.line + 1}, Character ${characterNumberOf(anchor)} to \
+                Line ${active.line + 1}, Character ${characterNumberOf(active)}`;
         }
 
-        function rejectionTextFrom(editorLineCount: number): string {
+        /** Get the character number of `position`, counted the same way as in character terms. */
+        function characterNumberOf({ line, character }: Position): number {
+            if (configuration.countGraphemeClusters) {
+                return characterIndexToGraphemeIndex(current.editor.document.lineAt(line).text, character) + 1;
+            }
+            return character + 1;
+        }
+
+        /** 
+         * Get the text that explains why `input` was rejected. Only syntax errors can be pinpointed, 
+         * so the general usage text is shown for an empty input and for targets that cannot be 
+         * found in the document (such as a mark that has not been set).
+         */
+        function rejectionTextFrom(input: string, editorLineCount: number): string {
+            const syntaxError = input.trim() !== '' ? describeRejection(input, terminals) : undefined;
+            if (syntaxError !== undefined) {
+                return `${syntaxError}.`;
+            }
             return `Type in a line number between 1 and ${editorLineCount}. \
                     See extension page for detailed usage guide.`;
         }
 
     }
 
-    /** Show a dialog that does nothing but reject input. */
-    public showDisabled(): void {
+    /** 
+     * Show a dialog that does nothing but reject input. 
+     * 
+     * @param message Explains why the dialog is disabled.
+     */
+    public showDisabled(message: string = `Open a text file first to use ${EXT_NAME}`): void {
         this.dispose();
         const dialog = new Dialog({
             placeholder: '',
             validate: () => { 
                 return { 
                     ok: false, 
-                    message: `Open a text file first to use ${EXT_NAME}` 
+                    message 
                 }; 
             },
             onDidAccept: () => false,
             onDidHideViaEscapeOrFocusChange: () => {},
-            onDidHideViaSelectionInterrupt:  () => {}
+            onDidHideViaSelectionInterrupt:  () => {},
+            onError: () => ({ ok: false, message })
         });
         this.disposables.push(dialog);
     }
@@ -113,8 +330,46 @@ export class Controller {
 
 }
 
-/** Brief usage guide to show in the input field when it is empty. */
-const USAGE_GUIDE =
-    `USAGE: <LINE>[${TERMINALS.COORDINATE_SEPARATOR}<CHAR>][${TERMINALS.SELECT_SEPARATOR}<LINE>[${TERMINALS.COORDINATE_SEPARATOR}<CHAR>]]`
-    + ` | ` 
-    + `EXAMPLE: 1${TERMINALS.COORDINATE_SEPARATOR}10${TERMINALS.SELECT_SEPARATOR}5${TERMINALS.COORDINATE_SEPARATOR}20`;
\ No newline at end of file
+/** Brief usage guide to show in the input field when it is empty, written in the user's syntax. */
+function usageGuideFrom(terminals: Terminals): string {
+    const { LINE_PREFIX: line, COORDINATE_SEPARATOR: coordinate, SELECT_SEPARATOR: select } = terminals;
+    return `USAGE: ${line}<LINE>[${coordinate}<CHAR>][${select}${line}<LINE>[${coordinate}<CHAR>]]`
+        + ` | ` 
+        + `EXAMPLE: ${line}1${coordinate}10${select}${line}5${coordinate}20`;
+}
+
+/** The parts of a document's state that are fixed while the dialog is open. */
+type DocumentState = {
+    /** The symbols of the document, once they have arrived. */
+    symbols: ReadonlyMap<string, Position> | undefined,
+    pendingSymbols: Thenable<ReadonlyMap<string, Position>>,
+    viewport: Range,
+    /** The result of each input that has been parsed against the document. */
+    results: Map<string, Selection[] | undefined>
+};
+
+/** A document that inputs are applied to, along with the editor that it is shown in. */
+type Target = { editor: TextEditor, state: DocumentState, revealer: Revealer };
+
+/** 
+ * Get the initial state of `document` when it is first targeted.
+ * 
+ * @param visibleRanges The ranges that are visible in the editor of the document at that moment.
+ */
+function newDocumentState(document: TextDocument, visibleRanges: ReadonlyArray<Range>): DocumentState {
+    /* Symbols are provided by the document's symbol provider, which responds asynchronously. So we 
+    request for them as soon as the document is targeted, and only the inputs that refer to symbols
+    have to wait for them. */
+    const state: DocumentState = {
+        symbols:        undefined,
+        pendingSymbols: getDocumentSymbols(document).then(
+            result => state.symbols = result,
+            () => state.symbols = new Map()
+        ),
+        /* The viewport is fixed to what is visible when the document is first targeted, otherwise 
+        the lines that viewport terms refer to would move each time a target is revealed. */
+        viewport: new Range(visibleRanges[0].start, visibleRanges[visibleRanges.length - 1].end),
+        results:  new Map()
+    };
+    return state;
+}
@@ -48,6 +48,15 @@ export class Dialog {
      */
     private onDidHideListener: Disposable;
 
+    /** 
+     * Whether `dispose` has been called. A pending validation or acceptance that completes after
+     * the dialog has been closed must not touch the dialog anymore.
+     */
+    private isDisposed: boolean = false;
+
+    /** Validate a value in the input field and show the feedback for it. */
+    private validate: (value: string) => void;
+
     /** 
      * Show a dialog box for user input.
      * 
@@ -57,7 +66,9 @@ export class Dialog {
      * determines what kind of message we show to the user as feedback. The value of the `ok` property 
      * determines the styling of the dialog box. For instance, when `ok: false`, the dialog box will 
      * have a style that indicates input error. The `message` property is the string that will be 
-     * shown to the user as feedback. 
+     * shown to the user as feedback. If the value can only be validated asynchronously, this 
+     * callback can return a `Thenable` instead, in which case `PENDING_MESSAGE` is shown until it
+     * resolves. Results of values that are no longer in the input field are discarded.
      * @param onDidHideViaEscapeOrFocusChange Callback that is triggered after the dialog box is 
      * hidden via an `Escape` keypress or via focus switch (e.g. switching to a different editor tab).
      * @param onDidHideViaSelectionInterrupt Callback that is triggered after the user selects text 
@@ -69,35 +80,80 @@ export class Dialog {
      * indicates the result via the return value. If the return value of this callback is `true` the
      * dialog box will close, otherwise it will be kept open. Note that closing the dialog box here 
      * will not subsequently trigger `onDidHideViaEscapeOrFocusChange` nor `onDidHideViaSelectionInterrupt`.
+     * Similar to `validate`, this callback can return a `Thenable` if the input can only be checked
+     * asynchronously.
+     * @param onError Callback that gives the feedback to show for a value if the `Thenable` returned
+     * by `validate` or `onDidAccept` for it is rejected. The dialog box is kept open in that case.
      */
     public constructor(behavior: {
         placeholder: string,
-        validate: (value: string) => { ok: boolean, message: string },
+        validate: (value: string) => Feedback | Thenable<Feedback>,
         onDidHideViaEscapeOrFocusChange: () => void,
         onDidHideViaSelectionInterrupt: () => void,
-        onDidAccept: (value: string) => boolean,
+        onDidAccept: (value: string) => boolean | Thenable<boolean>,
+        onError: (value: string) => Feedback,
     }) {
         this.inputBox = window.createInputBox();
         this.inputBox.show();
         this.inputBox.placeholder = behavior.placeholder;
 
+        // Replaces the feedback for `value` (which might be `PENDING_MESSAGE`) if it is still shown
+        const showError = (value: string) => {
+            if (!this.isDisposed && this.inputBox.value === value) {
+                showFeedback(this.inputBox, behavior.onError(value));
+            }
+        };
+
+        const validate = this.validate = (value: string) => {
+            const result = behavior.validate(value);
+            if (!isThenable(result)) {
+                showFeedback(this.inputBox, result);
+                return;
+            }
+            showFeedback(this.inputBox, { ok: true, message: PENDING_MESSAGE });
+            result.then(
+                result => {
+                    if (!this.isDisposed && this.inputBox.value === value) {
+                        showFeedback(this.inputBox, result);
+                    }
+                },
+                () => showError(value)
+            );
+        };
+
         // Make sure that the dialog box shows the correct feedback at initialization 
-        showFeedback(this.inputBox, behavior.validate(this.inputBox.value));
+        validate(this.inputBox.value);
 
-        this.onDidChangeListener = this.inputBox.onDidChangeValue(() =>
-            showFeedback(this.inputBox, behavior.validate(this.inputBox.value))
-        );
+        this.onDidChangeListener = this.inputBox.onDidChangeValue(() => validate(this.inputBox.value));
 
-        this.selectionChangeListener = window.onDidChangeTextEditorSelection(() => {
+        this.selectionChangeListener = window.onDidChangeTextEditorSelection((event) => {
+            /* A selection change without a kind was not made by the user, such as when a document is
+            shown in a new editor. */
+            if (event.kind === undefined) {
+                return;
+            }
             behavior.onDidHideViaSelectionInterrupt();
             // Because we call dispose here, `this.onDidHideListener` is not subsequently triggered 
             this.dispose();
         });
 
         this.onDidAccept = this.inputBox.onDidAccept(() => {
-            if (behavior.onDidAccept(this.inputBox.value)) {
-                this.dispose();
+            const value  = this.inputBox.value;
+            const result = behavior.onDidAccept(value);
+            if (!isThenable(result)) {
+                if (result) {
+                    this.dispose();
+                }
+                return;
             }
+            result.then(
+                result => {
+                    if (!this.isDisposed && result) {
+                        this.dispose();
+                    }
+                },
+                () => showError(value)
+            );
         });
 
         this.onDidHideListener = this.inputBox.onDidHide(() => { 
@@ -108,7 +164,7 @@ export class Dialog {
             this.dispose();
         });
 
-        function showFeedback(inputBox: InputBox, result: { ok: boolean, message: string }): void {
+        function showFeedback(inputBox: InputBox, result: Feedback): void {
             const { ok, message } = result;
             if (ok) {
                 inputBox.prompt = message; 
@@ -120,8 +176,15 @@ export class Dialog {
         }
     }
 
+    /** Replace the value in the input field and validate it. */
+    public setValue(value: string): void {
+        this.inputBox.value = value;
+        this.validate(value);
+    }
+
     /** Immediately close the dialog box. */
     public dispose(): void {
+        this.isDisposed = true;
         this.onDidChangeListener.dispose();
         this.onDidAccept.dispose();
         this.selectionChangeListener.dispose();
@@ -132,4 +195,17 @@ export class Dialog {
         this.inputBox.dispose();
     }
 
-}
\ No newline at end of file
+}
+
+/** 
+ * Feedback to show in the dialog box. When `ok` is `false` the dialog box is styled to indicate an
+ * input error.
+ */
+export type Feedback = { ok: boolean, message: string };
+
+/** Message shown while an input is being validated asynchronously. */
+const PENDING_MESSAGE = 'Loading...';
+
+function isThenable<T>(value: T | Thenable<T>): value is Thenable<T> {
+    return typeof value === 'object' && value !== null && typeof (value as Thenable<T>).then === 'function';
+}
@@ -1,11 +1,15 @@
 import { ExtensionContext, commands, window } from 'vscode';
 import { Controller } from './controller';
+import { Marks } from './marks';
+import { isMarkName } from './grammar/mark-name';
+import { EXT_IDENT } from './configuration';
 
-export const EXT_NAME  = 'Select to Line...';           // Extension name
-export const EXT_IDENT = 'select-to-line';           // Extension identifier
+// The identifiers live alongside the settings, which need them as soon as they are loaded
+export { EXT_NAME, EXT_IDENT } from './configuration';
 
 export function activate(context: ExtensionContext) {
-    const controller = new Controller();
+    const marks = new Marks();
+    const controller = new Controller(marks);
     const openCommand = commands.registerCommand(`${EXT_IDENT}.open`, () => {
         if (window.activeTextEditor) {
             controller.show(window.activeTextEditor);
@@ -13,7 +17,24 @@ export function activate(context: ExtensionContext) {
             controller.showDisabled();
         }
     });
-    context.subscriptions.push(openCommand, controller);
+    /* The name of the mark can be provided as an argument (for instance through a keybinding), 
+    otherwise the user is asked for it. */
+    const setMarkCommand = commands.registerCommand(`${EXT_IDENT}.setMark`, async (name?: string) => {
+        const editor = window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+        if (name === undefined) {
+            name = await window.showInputBox({
+                prompt: 'Name of the mark to set at the cursor (a lowercase letter)',
+                validateInput: (value) => isMarkName(value) ? undefined : 'Mark names must be a single lowercase letter'
+            });
+        }
+        if (name !== undefined && isMarkName(name)) {
+            marks.set(editor.document, name, editor.selection.active);
+        }
+    });
+    context.subscriptions.push(openCommand, setMarkCommand, controller, marks);
 }
 
 export function deactivate() {
@@ -0,0 +1,141 @@
+import { stat } from 'fs';
+import { isAbsolute, join } from 'path';
+import { Uri, workspace } from 'vscode';
+import { Terminals } from './grammar/terminal';
+import { isRejectedBeforeEnd } from './finite-automation/finite-automation';
+
+/*
+ * An input can start with the path of a file followed by a `:`, in which case the rest of the input
+ * is applied to that file instead of the current one (for instance `src/controller.ts:40:10`). The
+ * path is either absolute or relative to one of the workspace folders.
+ *
+ * The `:` after the path is fixed regardless of the syntax settings, since that is how locations are
+ * written in the output of compilers and linters. For the same reason, a rest of `40:10` means line
+ * 40, character 10 rather than whatever it would mean in the user's syntax.
+ */
+
+/** The file that an input refers to, and the part of the input that is applied to it. */
+export type FileTarget = { readonly uri: Uri, readonly input: string };
+
+/** The most number of workspace files that paths are completed from. */
+const MAX_WORKSPACE_FILES = 5000;
+
+/**
+ * Split `value` into the path that it starts with and the rest of it, which is everything after the
+ * first `:` that follows the path. A drive letter (as in `C:\`) is part of the path.
+ *
+ * @return The path and the rest, where the rest is `undefined` if there is no `:` after the path.
+ */
+export function splitPath(value: string): { path: string, rest: string | undefined } {
+    const drive = /^\s*[a-zA-Z]:[\\/]/.exec(value);
+    const separator = value.indexOf(':', drive ? drive[0].length : 0);
+    if (separator === -1) {
+        return { path: value.trim(), rest: undefined };
+    }
+    return { path: value.slice(0, separator).trim(), rest: value.slice(separator + 1) };
+}
+
+/**
+ * Whether the start of `value` looks like it is meant to be a path, which is when it contains a `.`
+ * or a path separator and cannot be read as the start of an input. So `src/foo.ts` looks like a path, 
+ * but a search such as `/foo/` does not.
+ * 
+ * @param terminals The terminals that the start of `value` is read with.
+ */
+export function looksLikePath(value: string, terminals: Terminals): boolean {
+    const { path } = splitPath(value);
+    return /[./\\]/.test(path) && isRejectedBeforeEnd(path, terminals);
+}
+
+/**
+ * Get the file that `value` refers to, if it starts with the path of an existing file.
+ *
+ * The file system is only checked if `value` looks like a path (see `looksLikePath`), so that an
+ * input such as `10:20` is never taken over by a file that happens to be named `10`.
+ *
+ * @param value The input in the dialog.
+ * @param terminals The terminals that the start of `value` is read with, and that the rest of the 
+ *                  input is translated to if it is a location in the form `<LINE>:<CHAR>` or `<LINE>`.
+ * @return Resolves to `undefined` if `value` does not start with the path of a file, which means 
+ *         that the input applies to the current file.
+ */
+export function splitFileTarget(value: string, terminals: Terminals): Thenable<FileTarget | undefined> {
+    if (!looksLikePath(value, terminals)) {
+        return Promise.resolve(undefined);
+    }
+    const { path, rest } = splitPath(value);
+    const candidates = isAbsolute(path)
+        ? [ path ]
+        : (workspace.workspaceFolders || []).map(folder => join(folder.uri.fsPath, path));
+    return Promise.all(candidates.map(isFile)).then(areFiles => {
+        const file = candidates.find((_, i) => areFiles[i]);
+        if (file === undefined) {
+            return undefined;
+        }
+        const location = /^\s*(\d+)(?::(\d+))?\s*$/.exec(rest || '');
+        if (!location) {
+            return { uri: Uri.file(file), input: rest || '' };
+        }
+        const [ , line, character ] = location;
+        const { LINE_PREFIX, COORDINATE_SEPARATOR } = terminals;
+        return {
+            uri:   Uri.file(file),
+            input: `${LINE_PREFIX}${line}` + (character !== undefined ? `${COORDINATE_SEPARATOR}${character}` : '')
+        };
+    });
+
+    function isFile(candidate: string): Promise<boolean> {
+        return new Promise(resolve => stat(candidate, (error, stats) => resolve(!error && stats.isFile())));
+    }
+}
+
+/**
+ * Get the paths of the files in the workspace relative to their workspace folder, leaving out the
+ * files excluded by the `files.exclude` setting.
+ */
+export function getWorkspaceFiles(): Thenable<string[]> {
+    return workspace.findFiles('**/*', undefined, MAX_WORKSPACE_FILES).then(
+        uris => uris.map(uri => workspace.asRelativePath(uri, false))
+    );
+}
+
+/**
+ * Find the paths that fuzzily match `query`, which are those that contain the characters of `query`
+ * in order (ignoring case). Matches where the characters are consecutive or in the name of the file
+ * are ranked first, then shorter paths.
+ *
+ * @param query The path to match, where `\` is treated the same as `/`.
+ * @param paths The paths to search, with `/` as the separator.
+ * @param limit The most number of matches to return.
+ * @return The matching paths, best match first.
+ */
+export function fuzzyMatchPaths(query: string, paths: ReadonlyArray<string>, limit: number): string[] {
+    const normalized = query.replace(/\\/g, '/').toLowerCase();
+    const matches: { path: string, score: number }[] = [];
+    for (const path of paths) {
+        const score = scoreOf(path);
+        if (score !== undefined) {
+            matches.push({ path, score });
+        }
+    }
+    return matches
+        .sort((a, b) => b.score - a.score || a.path.length - b.path.length)
+        .slice(0, limit)
+        .map(({ path }) => path);
+
+    function scoreOf(path: string): number | undefined {
+        const lower     = path.toLowerCase();
+        const nameStart = lower.lastIndexOf('/') + 1;
+        let score    = 0;
+        let previous = -2;
+        for (const char of normalized) {
+            const index = lower.indexOf(char, previous + 1);
+            if (index === -1) {
+                return undefined;
+            }
+            score += (index === previous + 1 ? 2 : 0) + (index >= nameStart ? 1 : 0);
+            previous = index;
+        }
+        return score;
+    }
+}
@@ -1,7 +1,10 @@
-import { Intent } from './intent';
-import { ACCEPT_STATES } from './states/,accept-states';
+import { Intent, FindCharacter, Paragraph, IndentationBlock } from './intent';
 import { SELECTION_MODE } from './selection-mode';
-import { TERMINAL } from '../grammar/terminal';
+import { TERMINAL, TerminalName, Terminals, DEFAULT_TERMINALS } from '../grammar/terminal';
+import { isMarkName } from '../grammar/mark-name';
+import { isSymbolNameCharacter } from '../grammar/symbol-name';
+import { isBackwardPatternCharacter, isEscapedPatternCharacter, isForwardPatternCharacter } from '../grammar/pattern';
+import { isCharacterToFind } from '../grammar/find-character';
 
 /** 
  * The finite automation as described by the graph `graph.gv` (located in the extension's root 
@@ -12,36 +15,47 @@ export class FiniteAutomation {
     /**
      * Create a new finite automation. 
      * 
-     * Once created, it can only be advanced and cannot be reset. If a fresh finite automation is 
-     * needed, another instance must be created.
+     * Once created, it can only be advanced, or be rolled back to a `Snapshot` that was taken of it
+     * earlier. If a fresh finite automation is needed, another instance must be created.
+     * 
+     * @param terminals The symbol that each terminal is typed as.
      */
-    public constructor() {}
+    public constructor(private readonly terminals: Terminals = DEFAULT_TERMINALS) {}
 
-    private currentState: STATES = STATES.START;
+    private currentState: STATE = STATE.START;
 
     public get isAcceptState(): boolean {
         return ACCEPT_STATES.includes(this.currentState);
     }
 
-    // TODO: Move this initiailizer into the `Intent` class type
-    private _intent: Intent = {
-        anchor: { line: { kind: 'none' }, character: { kind: 'none' } },
-        active: { line: { kind: 'none' }, character: { kind: 'none' } },
-        /* Unless one of the 'SELECT_SEPARATOR' tokens are read, we interpret the user input as 
-        specifying a single location in the document to go to. */
-        selectionMode: SELECTION_MODE.GOTO
-    };
+    /** 
+     * One `Intent` per target in the input. 
+     * 
+     * The last element is the target that is currently being read. A new element is pushed each
+     * time a `TARGET_SEPARATOR` token is read.
+     */
+    private _intents: Intent[] = [ newIntent() ];
 
     /** 
-     * The finite automation's interpretation of the input that has been read so far. 
+     * The finite automation's interpretation of the input that has been read so far, with one 
+     * `Intent` per target in the input.
      * 
      * This will be `undefined` if the input has been rejected.
      * */
-    public get intent(): Readonly<Intent> {
-        return this._intent;
+    public get intents(): ReadonlyArray<Readonly<Intent>> {
+        return this._intents;
+    }
+
+    /** 
+     * Descriptions of the tokens that can be read next, such as `digit` or `':'`, where each 
+     * terminal is described by the symbol it is typed as.
+     */
+    public get expectedTokens(): ReadonlyArray<string> {
+        const descriptions = transitionsFrom(this.currentState)
+            .map(({ condition }) => describeCondition(condition, this.terminals));
+        return [ ...new Set(([] as string[]).concat(...descriptions)) ];
     }
 
-    // TODO: Make this section simpler after the statemap is constructed
     /** 
      * Attempt to advance the finite automation once by reading a single token.
      * 
@@ -49,98 +63,545 @@ export class FiniteAutomation {
      * Otherwise the `token` is rejected and `false` is returned. 
      */
     public advance(token: string): boolean {
-        // Go through the state map to find a matching transition for the token
-        for (const { source, destination, condition, callback } of STATE_MAP) {
-            if (this.currentState !== source) {
+        // Go through the transitions out of the current state to find one whose condition the token fulfills
+        for (const { source, destination, condition, callback } of transitionsFrom(this.currentState)) {
+            const read = readToken(condition, token, this.terminals);
+            if (read === undefined) {
                 continue;
             }
-            if (typeof condition === 'string') {
-                if (token !== condition) {
-                    continue;
-                }
-            } else {
-                if (!condition(token)) {
-                    continue;
-                }
-            }
             /* We get here if an appropriate transition is found, i.e. a transition from the current 
             state where there token matches the conditional. Thus we can advance the finite automation
             and build the `Intent`. */
             this.currentState = destination;
-            callback(this._intent, token);
+            /* `START` can only be reentered from another state by reading a `TARGET_SEPARATOR` 
+            token, which means that the tokens that follow describe another target. */
+            if (destination === STATE.START && source !== STATE.START) {
+                this._intents.push(newIntent());
+            }
+            callback(this._intents[this._intents.length - 1], read);
             return true;
         }
         // We get here if a matching transition cannot be found, i.e. the token is rejected
         return false;
     }
 
-    // TODO: Make this a method of the Finite Automation
-    /** 
- * Get the meaning of the input by running it through the finite automation. Will return `undefined`
- * if rejected by the finite automation.
+    /** Get a copy of the current state of the finite automation, which it can be rolled back to. */
+    public snapshot(): Snapshot {
+        return { state: this.currentState, intents: this._intents.map(copyOf) };
+    }
+
+    /** Roll the finite automation back to the state it was in when `snapshot` was taken of it. */
+    public restore(snapshot: Snapshot): void {
+        this.currentState = snapshot.state;
+        this._intents     = snapshot.intents.map(copyOf);
+    }
+
+}
+
+/** The state of a `FiniteAutomation` at some point in the input. */
+export type Snapshot = {
+    readonly state:   STATE,
+    readonly intents: ReadonlyArray<Intent>
+};
+
+/**
+ * Runs inputs through the finite automation to get their meaning.
+ * 
+ * Consecutive inputs are usually a keystroke apart, so instead of reading each input from `START`, 
+ * only the tokens after the part it shares with the previous input are read. A snapshot is taken of 
+ * the finite automation after each token, so that deleted tokens are undone by rolling back to the
+ * snapshot from before them.
  */
-function runFiniteAutomation(input: string): Intent | undefined {
-    const finiteAutomation = new FiniteAutomation();
-    for (const token of stripWhitespace(input)) {
-        if (!finiteAutomation.advance(token)) {
-            // Rejection
+export class IncrementalFiniteAutomation {
+
+    private readonly finiteAutomation: FiniteAutomation;
+
+    /** The tokens of the previous input. */
+    private tokens: string[] = [];
+
+    /** 
+     * The snapshot taken after each of the previous input's tokens was read, following the snapshot
+     * of the initial state.
+     * 
+     * A snapshot is `undefined` if the input was rejected by then.
+     */
+    private snapshots: (Snapshot | undefined)[];
+
+    /** @param terminals The symbol that each terminal is typed as. */
+    public constructor(terminals: Terminals = DEFAULT_TERMINALS) {
+        this.finiteAutomation = new FiniteAutomation(terminals);
+        this.snapshots        = [ this.finiteAutomation.snapshot() ];
+    }
+
+    /** 
+     * Get the meaning of `input` by running it through the finite automation. 
+     * 
+     * @return One `Intent` per target in the input, which the caller is free to modify. But 
+     *         `undefined` if the input is rejected by the finite automation.
+     */
+    public run(input: string): Intent[] | undefined {
+        const tokens = [ ...input ];
+        let shared = 0;
+        while (shared < tokens.length && shared < this.tokens.length && tokens[shared] === this.tokens[shared]) {
+            ++shared;
+        }
+        if (shared < this.tokens.length) {
+            this.tokens.length    = shared;
+            this.snapshots.length = shared + 1;
+            const snapshot = this.snapshots[shared];
+            if (snapshot) {
+                this.finiteAutomation.restore(snapshot);
+            }
+        }
+        for (const token of tokens.slice(shared)) {
+            // Once the input is rejected, no token that follows can make it accepted again
+            const isAccepted = this.snapshots[this.snapshots.length - 1] !== undefined
+                && (this.finiteAutomation.advance(token) || isWhitespace(token));
+            this.tokens.push(token);
+            this.snapshots.push(isAccepted ? this.finiteAutomation.snapshot() : undefined);
+        }
+        const snapshot = this.snapshots[this.snapshots.length - 1];
+        if (!snapshot || !ACCEPT_STATES.includes(snapshot.state)) {
             return undefined;
         }
+        return snapshot.intents.map(copyOf);
+    }
+
+}
+
+/**
+ * Describe where and why the finite automation rejects `input`, for instance `Unexpected 'x' at 
+ * position 4; expected digit, ',' or ':'`. Positions are 1-based and count whitespace.
+ * 
+ * @return The description. But `undefined` if the finite automation accepts `input`, since such an
+ *         input can only be rejected once its targets are found in the document.
+ */
+export function describeRejection(input: string, terminals: Terminals = DEFAULT_TERMINALS): string | undefined {
+    const finiteAutomation = new FiniteAutomation(terminals);
+    for (const [index, token] of [ ...input ].entries()) {
+        if (!finiteAutomation.advance(token) && !isWhitespace(token)) {
+            return `Unexpected '${token}' at position ${index + 1}; expected ${listOf(finiteAutomation.expectedTokens)}`;
+        }
     }
     if (!finiteAutomation.isAcceptState) {
-        return undefined;
+        return `Unexpected end of input; expected ${listOf(finiteAutomation.expectedTokens)}`;
+    }
+    return undefined;
+
+    function listOf(descriptions: ReadonlyArray<string>): string {
+        return descriptions.length > 1 
+            ? `${descriptions.slice(0, -1).join(', ')} or ${descriptions[descriptions.length - 1]}` 
+            : descriptions.join('');
+    }
+}
+
+/**
+ * Whether the finite automation rejects one of the tokens of `input`. An input that is only missing
+ * tokens at its end (such as `/foo` or `10,`) is not rejected before its end.
+ */
+export function isRejectedBeforeEnd(input: string, terminals: Terminals = DEFAULT_TERMINALS): boolean {
+    const finiteAutomation = new FiniteAutomation(terminals);
+    return [ ...input ].some(token => !finiteAutomation.advance(token) && !isWhitespace(token));
+}
+
+/* Whitespace is only read by the finite automation when it is part of a pattern or is the character 
+to find in a find character term. Anywhere else it is ignored. */
+function isWhitespace(token: string): boolean {
+    return /^\s$/.test(token);
+}
+
+/** Get a deep copy of `value`, which must only consist of primitives and plain objects. */
+function copyOf<T>(value: T): T {
+    if (typeof value !== 'object' || value === null) {
+        return value;
+    }
+    const copy = Object.assign({}, value);
+    for (const key of Object.keys(copy) as (keyof T)[]) {
+        copy[key] = copyOf(copy[key]);
+    }
+    return copy;
+}
+
+/**
+ * Read `token` under a transition's `condition`.
+ * 
+ * @return The token as it is given to the transition's callback, which is the default symbol of the
+ *         terminal that `token` was typed as. But `undefined` if the condition is not fulfilled.
+ */
+function readToken(condition: Condition, token: string, terminals: Terminals): string | undefined {
+    if (typeof condition === 'function') {
+        return condition(token, terminals) ? token : undefined;
+    }
+    const names: ReadonlyArray<TerminalName> = typeof condition === 'string' ? [ condition ] : condition;
+    const name = names.find(name => terminals[name] === token);
+    return name !== undefined ? TERMINAL[name] : undefined;
+}
+
+/** How the tokens that fulfill each predicate are described to the user. */
+const PREDICATE_DESCRIPTIONS: ReadonlyMap<Condition, string> = new Map<Condition, string>([
+    [ isMarkName,                 'mark name'         ],
+    [ isSymbolNameCharacter,      'symbol name'       ],
+    [ isForwardPatternCharacter,  'pattern character' ],
+    [ isBackwardPatternCharacter, 'pattern character' ],
+    [ isEscapedPatternCharacter,  'any character'     ],
+    [ isCharacterToFind,          'any character'     ]
+]);
+
+/** Describe the tokens that fulfill `condition`, for instance `digit` or `':'`. */
+export function describeCondition(condition: Condition, terminals: Terminals): ReadonlyArray<string> {
+    if (condition === DIGIT_TERMINALS) {
+        return [ 'digit' ];
+    }
+    if (typeof condition === 'function') {
+        const description = PREDICATE_DESCRIPTIONS.get(condition);
+        if (description === undefined) {
+            throw new Error('Unreachable!');
+        }
+        return [ description ];
+    }
+    const names: ReadonlyArray<TerminalName> = typeof condition === 'string' ? [ condition ] : condition;
+    return names.filter(name => terminals[name] !== '').map(name => `'${terminals[name]}'`);
+}
+
+/** 
+ * Two transitions from the same state that can both read the same token, in which case only the
+ * transition that is listed first in `TRANSITIONS` is ever taken.
+ */
+export type Ambiguity = {
+    readonly state:  STATE,
+    readonly symbol: string,
+    /** 
+     * The id of each transition, along with the terminal that reads `symbol` (which is `undefined` 
+     * when it is read by a predicate). Both can be the same transition if it has two terminals that
+     * are typed as `symbol`.
+     */
+    readonly first:  { readonly id: string, readonly terminal: TerminalName | undefined },
+    readonly second: { readonly id: string, readonly terminal: TerminalName | undefined }
+};
+
+/**
+ * Find every pair of transitions that makes the finite automation ambiguous, which is when two 
+ * terminals with the same symbol can be read from a state, or when a terminal's symbol also 
+ * fulfills the predicate of another transition from the same state.
+ * 
+ * Only ambiguities between two predicates are not found, since the tokens that both predicates 
+ * accept cannot be listed.
+ */
+export function findAmbiguities(terminals: Terminals = DEFAULT_TERMINALS): Ambiguity[] {
+    const ambiguities: Ambiguity[] = [];
+    for (const [i, first] of TRANSITIONS.entries()) {
+        for (const second of TRANSITIONS.slice(i)) {
+            if (first.source !== second.source) {
+                continue;
+            }
+            const found = (symbol: string, firstTerminal?: TerminalName, secondTerminal?: TerminalName) => 
+                ambiguities.push({
+                    state:  first.source,
+                    symbol,
+                    first:  { id: first.id,  terminal: firstTerminal  },
+                    second: { id: second.id, terminal: secondTerminal }
+                });
+            const firstNames  = namesOf(first.condition).filter(name => terminals[name] !== '');
+            const secondNames = namesOf(second.condition).filter(name => terminals[name] !== '');
+            for (const [j, name] of firstNames.entries()) {
+                // Within a single transition, each pair of terminals is only compared once
+                const others = first === second ? secondNames.slice(j + 1) : secondNames;
+                for (const other of others.filter(other => terminals[other] === terminals[name])) {
+                    found(terminals[name], name, other);
+                }
+            }
+            if (first === second) {
+                continue;
+            }
+            if (typeof second.condition === 'function') {
+                for (const name of firstNames) {
+                    if (second.condition(terminals[name], terminals)) {
+                        found(terminals[name], name, undefined);
+                    }
+                }
+            }
+            if (typeof first.condition === 'function') {
+                for (const name of secondNames) {
+                    if (first.condition(terminals[name], terminals)) {
+                        found(terminals[name], undefined, name);
+                    }
+                }
+            }
+        }
+    }
+    return ambiguities;
+
+    function namesOf(condition: Condition): ReadonlyArray<TerminalName> {
+        if (typeof condition === 'function') {
+            return [];
+        }
+        return typeof condition === 'string' ? [ condition ] : condition;
     }
-    return finiteAutomation.intent;
+}
 
-    function stripWhitespace(str: string): string {
-        return str.replace(/\s+/g,'');
+/**
+ * Find where `terminals` make the finite automation ambiguous (see `findAmbiguities`).
+ * 
+ * Only ambiguities involving a terminal that was assigned a symbol other than its default one are 
+ * reported, since the default syntax is checked to be unambiguous by the tests (see `graph.test.ts`).
+ * 
+ * @return A message describing the first conflict found. But `undefined` if there are no conflicts.
+ */
+export function findTerminalConflict(terminals: Terminals): string | undefined {
+    const isChanged = (name: TerminalName | undefined) => name !== undefined && terminals[name] !== TERMINAL[name];
+    const conflict  = findAmbiguities(terminals).find(({ first, second }) => 
+        isChanged(first.terminal) || isChanged(second.terminal)
+    );
+    if (!conflict) {
+        return undefined;
     }
+    const { state, symbol, first, second } = conflict;
+    if (first.terminal !== undefined && second.terminal !== undefined) {
+        return `${first.terminal} and ${second.terminal} cannot both be '${symbol}', since both can follow ${STATE[state]}.`;
+    }
+    return `${first.terminal || second.terminal} cannot be '${symbol}', since it is ambiguous after ${STATE[state]}.`;
+}
+
+/** Get an `Intent` for a target that no tokens have been read for yet. */
+function newIntent(): Intent {
+    return {
+        anchor: { line: { kind: 'none' }, character: { kind: 'none' }, position: { kind: 'none' }, visualColumn: false },
+        active: { line: { kind: 'none' }, character: { kind: 'none' }, position: { kind: 'none' }, visualColumn: false },
+        /* Unless one of the 'SELECT_SEPARATOR' tokens are read, we interpret the user input as 
+        specifying a single location in the document to go to. */
+        selectionMode: SELECTION_MODE.GOTO,
+        // Every line in a range is a target unless a `STEP_SEPARATOR` token is read
+        step: '',
+        // Only the primary cursor is targeted unless a `PER_CURSOR_PREFIX` token is read
+        perCursor: false,
+        // The range is between two coordinates unless a `COUNT_SEPARATOR` token is read
+        count: ''
+    };
 }
 
+/** 
+ * Get a find character term for when `prefix` (a `FIND_CHARACTER_PREFIX` or `TILL_CHARACTER_PREFIX`
+ * token) is read. The character to find is only known once the next token is read.
+ */
+function newFindCharacterTerm(prefix: string, count: FindCharacter['count']): FindCharacter {
+    return { 
+        kind:      'findCharacter', 
+        count, 
+        till:      prefix === TERMINAL.TILL_CHARACTER_PREFIX, 
+        character: '' 
+    };
+}
 
+/** 
+ * Get a paragraph term for when `symbol` (a `NEXT_PARAGRAPH` or `PREVIOUS_PARAGRAPH` token) is read,
+ * where `count` is the magnitude of the number that was read before it (if any).
+ */
+function newParagraphTerm(symbol: string, count: string): Paragraph {
+    return { 
+        kind:      'paragraph', 
+        direction: symbol === TERMINAL.NEXT_PARAGRAPH ? 'forward' : 'backward', 
+        count 
+    };
+}
 
+/** 
+ * Get an indentation block term for when `symbol` (a `START_OF_INDENTATION_BLOCK` or 
+ * `END_OF_INDENTATION_BLOCK` token) is read, where `count` is the magnitude of the number that was
+ * read before it (if any).
+ */
+function newIndentationBlockTerm(symbol: string, count: string): IndentationBlock {
+    return { 
+        kind:  'indentationBlock', 
+        edge:  symbol === TERMINAL.START_OF_INDENTATION_BLOCK ? 'start' : 'end', 
+        count 
+    };
 }
 
 /** All possible states of the finite automation. */
-enum STATE {
+export enum STATE {
     START,
     ANCHOR_LINE,
     ANCHOR_LINE_SIGN_PREFIX,
+    ANCHOR_LINE_PREFIX,
+    ANCHOR_LINE_OPERATOR,
+    ANCHOR_LINE_PERCENTAGE,
+    ANCHOR_LINE_END,
+    ANCHOR_LINE_END_SIGN_PREFIX,
+    ANCHOR_LINE_FORWARD_PATTERN,
+    ANCHOR_LINE_FORWARD_PATTERN_ESCAPE,
+    ANCHOR_LINE_BACKWARD_PATTERN,
+    ANCHOR_LINE_BACKWARD_PATTERN_ESCAPE,
+    ANCHOR_LINE_SEARCH,
+    ANCHOR_LINE_VIEWPORT,
+    ANCHOR_LINE_VIEWPORT_SIGN_PREFIX,
+    ANCHOR_LINE_VIEWPORT_OFFSET,
+    ANCHOR_LINE_PARAGRAPH,
+    ANCHOR_LINE_INDENTATION,
     ANCHOR_CHAR,
     ANCHOR_CHAR_SHORTCUT,
     ANCHOR_CHAR_SIGN_PREFIX,
+    ANCHOR_CHAR_OPERATOR,
+    ANCHOR_CHAR_FIND_PREFIX,
+    ANCHOR_CHAR_FIND,
     ANCHOR_COORDINATE_SEPARATOR,
+    ANCHOR_VISUAL_COLUMN_PREFIX,
+    ANCHOR_OFFSET_PREFIX,
+    ANCHOR_BYTE_OFFSET_PREFIX,
+    ANCHOR_OFFSET,
+    ANCHOR_MARK_PREFIX,
+    ANCHOR_MARK,
+    ANCHOR_SYMBOL_PREFIX,
+    ANCHOR_SYMBOL,
+    ANCHOR_SYMBOL_SIGN_PREFIX,
+    ANCHOR_SYMBOL_OFFSET,
+    ANCHOR_MATCHING_BRACKET,
+    ANCHOR_ENCLOSING_PAIR,
     ACTIVE_START,
     ACTIVE_LINE,
     ACTIVE_LINE_SIGN_PREFIX,
+    ACTIVE_LINE_PREFIX,
+    ACTIVE_LINE_OPERATOR,
+    ACTIVE_LINE_PERCENTAGE,
+    ACTIVE_LINE_END,
+    ACTIVE_LINE_END_SIGN_PREFIX,
+    ACTIVE_LINE_FORWARD_PATTERN,
+    ACTIVE_LINE_FORWARD_PATTERN_ESCAPE,
+    ACTIVE_LINE_BACKWARD_PATTERN,
+    ACTIVE_LINE_BACKWARD_PATTERN_ESCAPE,
+    ACTIVE_LINE_SEARCH,
+    ACTIVE_LINE_VIEWPORT,
+    ACTIVE_LINE_VIEWPORT_SIGN_PREFIX,
+    ACTIVE_LINE_VIEWPORT_OFFSET,
+    ACTIVE_LINE_PARAGRAPH,
+    ACTIVE_LINE_INDENTATION,
+    ACTIVE_STEP_SEPARATOR,
+    ACTIVE_STEP,
+    ACTIVE_STEP_COORDINATE_SEPARATOR,
+    ACTIVE_COUNT_SEPARATOR,
+    ACTIVE_COUNT,
+    ACTIVE_COUNT_CHARACTERS,
     ACTIVE_CHAR,
     ACTIVE_CHAR_SHORTCUT,
     ACTIVE_CHAR_SIGN_PREFIX,
-    ACTIVE_COORDINATE_SEPARATOR
+    ACTIVE_CHAR_OPERATOR,
+    ACTIVE_CHAR_FIND_PREFIX,
+    ACTIVE_CHAR_FIND,
+    ACTIVE_COORDINATE_SEPARATOR,
+    ACTIVE_VISUAL_COLUMN_PREFIX,
+    ACTIVE_OFFSET_PREFIX,
+    ACTIVE_BYTE_OFFSET_PREFIX,
+    ACTIVE_OFFSET,
+    ACTIVE_MARK_PREFIX,
+    ACTIVE_MARK,
+    ACTIVE_SYMBOL_PREFIX,
+    ACTIVE_SYMBOL,
+    ACTIVE_SYMBOL_SIGN_PREFIX,
+    ACTIVE_SYMBOL_OFFSET,
+    ACTIVE_MATCHING_BRACKET
 }
 
 /** Subset of states where the finite automation is allowed to terminate in a success. */
-const ACCEPT_STATES: ReadonlyArray<STATES> = [
-    STATES.ANCHOR_LINE,
-    STATES.ANCHOR_CHAR,
-    STATES.ANCHOR_CHAR_SHORTCUT,
-    STATES.ACTIVE_LINE,
-    STATES.ACTIVE_CHAR,
-    STATES.ACTIVE_CHAR_SHORTCUT
+export const ACCEPT_STATES: ReadonlyArray<STATE> = [
+    STATE.ANCHOR_LINE,
+    STATE.ANCHOR_LINE_PERCENTAGE,
+    STATE.ANCHOR_LINE_END,
+    STATE.ANCHOR_LINE_FORWARD_PATTERN,
+    STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+    STATE.ANCHOR_LINE_SEARCH,
+    STATE.ANCHOR_LINE_VIEWPORT,
+    STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+    STATE.ANCHOR_LINE_PARAGRAPH,
+    STATE.ANCHOR_LINE_INDENTATION,
+    STATE.ANCHOR_CHAR,
+    STATE.ANCHOR_CHAR_SHORTCUT,
+    STATE.ANCHOR_CHAR_FIND,
+    STATE.ANCHOR_OFFSET,
+    STATE.ANCHOR_MARK,
+    STATE.ANCHOR_SYMBOL,
+    STATE.ANCHOR_SYMBOL_OFFSET,
+    STATE.ANCHOR_MATCHING_BRACKET,
+    STATE.ANCHOR_ENCLOSING_PAIR,
+    STATE.ACTIVE_LINE,
+    STATE.ACTIVE_LINE_PERCENTAGE,
+    STATE.ACTIVE_LINE_END,
+    STATE.ACTIVE_LINE_FORWARD_PATTERN,
+    STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+    STATE.ACTIVE_LINE_SEARCH,
+    STATE.ACTIVE_LINE_VIEWPORT,
+    STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+    STATE.ACTIVE_LINE_PARAGRAPH,
+    STATE.ACTIVE_LINE_INDENTATION,
+    STATE.ACTIVE_STEP,
+    STATE.ACTIVE_COUNT,
+    STATE.ACTIVE_COUNT_CHARACTERS,
+    STATE.ACTIVE_CHAR,
+    STATE.ACTIVE_CHAR_SHORTCUT,
+    STATE.ACTIVE_CHAR_FIND,
+    STATE.ACTIVE_OFFSET,
+    STATE.ACTIVE_MARK,
+    STATE.ACTIVE_SYMBOL,
+    STATE.ACTIVE_SYMBOL_OFFSET,
+    STATE.ACTIVE_MATCHING_BRACKET
+];
+
+const DIGIT_TERMINALS: ReadonlyArray<TerminalName> = [
+    'ZERO',
+    'ONE',
+    'TWO',
+    'THREE',
+    'FOUR',
+    'FIVE',
+    'SIX',
+    'SEVEN',
+    'EIGHT',
+    'NINE'
+];
+
+const OPERATOR_TERMINALS: ReadonlyArray<TerminalName> = [
+    'ADDITION_OPERATOR',
+    'SUBTRACTION_OPERATOR',
+    'MULTIPLICATION_OPERATOR'
+];
+
+const FIND_CHARACTER_TERMINALS: ReadonlyArray<TerminalName> = [
+    'FIND_CHARACTER_PREFIX',
+    'TILL_CHARACTER_PREFIX'
+];
+
+const PARAGRAPH_TERMINALS: ReadonlyArray<TerminalName> = [
+    'NEXT_PARAGRAPH',
+    'PREVIOUS_PARAGRAPH'
 ];
 
-const DIGIT_TERMINALS: ReadonlyArray<TERMINAL> = [
-    TERMINAL.ONE,
-    TERMINAL.TWO,
-    TERMINAL.THREE,
-    TERMINAL.FOUR,
-    TERMINAL.FIVE,
-    TERMINAL.SIX,
-    TERMINAL.SEVEN,
-    TERMINAL.EIGHT,
-    TERMINAL.NINE
+const INDENTATION_BLOCK_TERMINALS: ReadonlyArray<TerminalName> = [
+    'START_OF_INDENTATION_BLOCK',
+    'END_OF_INDENTATION_BLOCK'
 ];
 
+/**
+ * Condition of a transition.
+ * 
+ * If the condition is a terminal (or an array of terminals) then it is fulfilled if the token is 
+ * the symbol that the terminal is typed as. If the condition is a predicate then it is fulfilled if
+ * the predicate returns `true` for the token, which is used for tokens that are not terminals (such
+ * as the name of a mark).
+ */
+export type Condition = TerminalName | ReadonlyArray<TerminalName> | ((token: string, terminals: Terminals) => boolean);
+
+/** A transition of the finite automation (see `TRANSITIONS`). */
+export type Transition = { 
+    readonly id:          string,
+    readonly source:      STATE, 
+    readonly destination: STATE, 
+    readonly condition:   Condition,
+    /** 
+     * When the condition is a terminal, the token is given as the terminal's symbol in the default 
+     * syntax (rather than as the symbol it was typed as), so that the `Intent` does not depend on
+     * the syntax that is used.
+     */
+    readonly callback:    (intent: Intent, token: string) => void 
+};
+
 /**
  * Array describing all the transitions of the finite automation.
  * 
@@ -150,31 +611,21 @@ const DIGIT_TERMINALS: ReadonlyArray<TERMINAL> = [
  * When a transition occurs, the associated `callback` will be used to modify the provided `Intent` 
  * to contain the intention associated with the transition.
  */
-const TRANSITIONS: ReadonlyArray<{ 
-    id:          string,
-    source:      STATE, 
-    destination: STATE, 
-    /** 
-     * If the condition is an array of terminals then the condition is considered fulfilled if 
-     * the token matches any element
-     */
-    condition:   TERMINAL | ReadonlyArray<TERMINAL>,
-    callback:    (intent: Intent, token: string) => void 
-}> = 
+export const TRANSITIONS: ReadonlyArray<Transition> = 
 [
     // Transitions for anchor term
     {
         id:          'ANCHOR_LINE_REL_NEG',
         source:      STATE.START,
         destination: STATE.ANCHOR_LINE_SIGN_PREFIX,
-        condition:   TERMINAL.NEGATIVE_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
         callback:    (intent) => intent.anchor.line = { kind: 'negativeRelative', magnitude: '' }
     },
     {
         id:          'ANCHOR_LINE_REL_POS',
         source:      STATE.START,
         destination: STATE.ANCHOR_LINE_SIGN_PREFIX,
-        condition:   TERMINAL.POSITIVE_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
         callback:    (intent) => intent.anchor.line = { kind: 'positiveRelative', magnitude: '' }
     },
     {
@@ -184,6 +635,28 @@ const TRANSITIONS: ReadonlyArray<{
         condition:   DIGIT_TERMINALS,
         callback:    (intent, token) => intent.anchor.line = { kind: 'absolute', magnitude: token }
     },
+    {
+        id:          'ANCHOR_LINE_PREFIX',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_PREFIX,
+        condition:   'LINE_PREFIX',
+        callback:    (intent) => intent.anchor.line = { kind: 'absolute', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_LINE_PREFIX_MAG',
+        source:      STATE.ANCHOR_LINE_PREFIX,
+        destination: STATE.ANCHOR_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
     {
         id:          'ANCHOR_LINE_REL_MAG',
         source:      STATE.ANCHOR_LINE_SIGN_PREFIX,
@@ -210,6 +683,7 @@ const TRANSITIONS: ReadonlyArray<{
                 case 'absolute':
                 case 'positiveRelative': 
                 case 'negativeRelative': 
+                case 'fromEnd':
                     intent.anchor.line.magnitude += token;       
                     break;
                 default: 
@@ -218,413 +692,3618 @@ const TRANSITIONS: ReadonlyArray<{
         }
     },
     {
-        id:          'ANCHOR_SEP_1',
+        id:          'ANCHOR_LINE_OP',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_LINE_OPERATOR,
+        condition:   OPERATOR_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_LINE_OP_MAG',
+        source:      STATE.ANCHOR_LINE_OPERATOR,
+        destination: STATE.ANCHOR_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_LINE_OPEN_1',
         source:      STATE.START,
-        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
-        condition:   TERMINAL.COORDINATE_SEPARATOR,
-        callback:    () => {}
+        destination: STATE.ANCHOR_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.anchor.line = { kind: 'absolute', magnitude: token }
     },
     {
-        id:          'ANCHOR_SEP_2',
+        id:          'ANCHOR_LINE_OPEN_2',
+        source:      STATE.ANCHOR_LINE_SIGN_PREFIX,
+        destination: STATE.ANCHOR_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_LINE_OPEN_3',
+        source:      STATE.ANCHOR_LINE_END_SIGN_PREFIX,
+        destination: STATE.ANCHOR_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'fromEnd':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_LINE_OPEN_4',
+        source:      STATE.ANCHOR_LINE_OPERATOR,
+        destination: STATE.ANCHOR_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_LINE_CLOSE',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_LINE,
+        condition:   'CLOSE_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_LINE_PERCENTAGE',
         source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_LINE_PERCENTAGE,
+        condition:   'PERCENTAGE_SUFFIX',
+        callback:    (intent) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.anchor.line = { kind: 'percentage', term: intent.anchor.line };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SEP_3',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
         destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
-        condition:   TERMINAL.COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
         callback:    () => {}
     },
     {
-        id:          'ANCHOR_SHORT_1A',
-        source:      STATE.START,
+        id:          'ANCHOR_SHORT_3A',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
     },
     {
-        id:          'ANCHOR_SHORT_1B',
-        source:      STATE.START,
+        id:          'ANCHOR_SHORT_3B',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
     },
     {
-        id:          'ANCHOR_SHORT_1C',
-        source:      STATE.START,
+        id:          'ANCHOR_SHORT_3C',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.START_OF_LINE_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
     },
     {
-        id:          'ANCHOR_SHORT_1D',
-        source:      STATE.START,
+        id:          'ANCHOR_SHORT_3D',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.END_OF_LINE_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
     },
     {
-        id:          'ANCHOR_SHORT_2A',
-        source:      STATE.ANCHOR_LINE,
-        destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT,
-        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+        id:          'SELECT_SEP_4',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
     },
     {
-        id:          'ANCHOR_SHORT_2B',
-        source:      STATE.ANCHOR_LINE,
+        id:          'SELECT_QUICK_SEP_4',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'ANCHOR_LINE_END',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_END,
+        condition:   'END_OF_DOCUMENT',
+        callback:    (intent) => intent.anchor.line = { kind: 'fromEnd', magnitude: '0' }
+    },
+    {
+        id:          'ANCHOR_LINE_END_REL_NEG',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ANCHOR_LINE_END_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.anchor.line = { kind: 'fromEnd', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_LINE_END_REL_MAG',
+        source:      STATE.ANCHOR_LINE_END_SIGN_PREFIX,
+        destination: STATE.ANCHOR_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'fromEnd': 
+                    intent.anchor.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SEP_4',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SHORT_4A',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_4B',
+        source:      STATE.ANCHOR_LINE_END,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
     },
     {
-        id:          'ANCHOR_SHORT_2C',
-        source:      STATE.ANCHOR_LINE,
+        id:          'ANCHOR_SHORT_4C',
+        source:      STATE.ANCHOR_LINE_END,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.START_OF_LINE_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
     },
     {
-        id:          'ANCHOR_SHORT_2D',
-        source:      STATE.ANCHOR_LINE,
+        id:          'ANCHOR_SHORT_4D',
+        source:      STATE.ANCHOR_LINE_END,
         destination: STATE.ANCHOR_CHAR_SHORTCUT,
-        condition:   TERMINAL.END_OF_LINE_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
         callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
     },
     {
-        id:          'ANCHOR_CHAR_REL_NEG',
-        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
-        destination: STATE.ANCHOR_CHAR_SIGN_PREFIX,
-        condition:   TERMINAL.NEGATIVE_SIGN_PREFIX,
-        callback:    (intent) => intent.anchor.character = { kind: 'negativeRelative', magnitude: '' }
+        id:          'SELECT_SEP_5',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
     },
     {
-        id:          'ANCHOR_CHAR_REL_POS',
-        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
-        destination: STATE.ANCHOR_CHAR_SIGN_PREFIX,
-        condition:   TERMINAL.POSITIVE_SIGN_PREFIX,
-        callback:    (intent) => intent.anchor.character = { kind: 'positiveRelative', magnitude: '' }
+        id:          'SELECT_QUICK_SEP_5',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
     },
     {
-        id:          'ANCHOR_CHAR_ABS',
-        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
-        destination: STATE.ANCHOR_CHAR,
-        condition:   DIGIT_TERMINALS,
-        callback:    (intent, token) => intent.anchor.character = { kind: 'absolute', magnitude: token }
+        id:          'ANCHOR_SEARCH_FORWARD',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_FORWARD_PATTERN,
+        condition:   'SEARCH_FORWARD_DELIMITER',
+        callback:    (intent) => intent.anchor.line = { kind: 'search', direction: 'forward', pattern: '' }
     },
     {
-        id:          'ANCHOR_CHAR_REL_MAG',
-        source:      STATE.ANCHOR_CHAR_SIGN_PREFIX,
-        destination: STATE.ANCHOR_CHAR,
-        condition:   DIGIT_TERMINALS,
+        id:          'ANCHOR_SEARCH_FORWARD_PATTERN',
+        source:      STATE.ANCHOR_LINE_FORWARD_PATTERN,
+        destination: STATE.ANCHOR_LINE_FORWARD_PATTERN,
+        condition:   isForwardPatternCharacter,
         callback:    (intent, token) => {
-            switch (intent.anchor.character.kind) {
-                case 'positiveRelative': 
-                case 'negativeRelative': 
-                    intent.anchor.character.magnitude += token;
+            switch (intent.anchor.line.kind) {
+                case 'search':
+                    intent.anchor.line.pattern += token;
                     break;
-                default:
+                default: 
                     throw new Error('Unreachable!');
             }
         }
     },
     {
-        id:          'ANCHOR_CHAR_MAG',
-        source:      STATE.ANCHOR_CHAR,
-        destination: STATE.ANCHOR_CHAR,
-        condition:   DIGIT_TERMINALS,
+        id:          'ANCHOR_SEARCH_FORWARD_ESCAPE',
+        source:      STATE.ANCHOR_LINE_FORWARD_PATTERN,
+        destination: STATE.ANCHOR_LINE_FORWARD_PATTERN_ESCAPE,
+        condition:   'PATTERN_ESCAPE',
         callback:    (intent, token) => {
-            switch (intent.anchor.character.kind) {
-                case 'absolute':
-                case 'positiveRelative': 
-                case 'negativeRelative': 
-                    intent.anchor.character.magnitude += token;       
+            switch (intent.anchor.line.kind) {
+                case 'search':
+                    intent.anchor.line.pattern += token;
                     break;
-                default:
+                default: 
                     throw new Error('Unreachable!');
             }
         }
     },
     {
-        id:          'SELECT_FROM_ANCHOR_SEP',
-        source:      STATE.START,
-        destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.SELECT_SEPARATOR,
-        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT_FROM_CURSOR
+        id:          'ANCHOR_SEARCH_FORWARD_ESCAPED',
+        source:      STATE.ANCHOR_LINE_FORWARD_PATTERN_ESCAPE,
+        destination: STATE.ANCHOR_LINE_FORWARD_PATTERN,
+        condition:   isEscapedPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'search':
+                    intent.anchor.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
     },
     {
-        id:          'SELECT_FROM_ANCHOR_QUICK_SEP',
+        id:          'ANCHOR_SEARCH_FORWARD_END',
+        source:      STATE.ANCHOR_LINE_FORWARD_PATTERN,
+        destination: STATE.ANCHOR_LINE_SEARCH,
+        condition:   'SEARCH_FORWARD_DELIMITER',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SEARCH_BACKWARD',
         source:      STATE.START,
-        destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.QUICK_SELECT_SEPARATOR,
-        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT_FROM_CURSOR
+        destination: STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+        condition:   'SEARCH_BACKWARD_DELIMITER',
+        callback:    (intent) => intent.anchor.line = { kind: 'search', direction: 'backward', pattern: '' }
     },
     {
-        id:          'SELECT_SEP_1',
-        source:      STATE.ANCHOR_LINE,
-        destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.SELECT_SEPARATOR,
-        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+        id:          'ANCHOR_SEARCH_BACKWARD_PATTERN',
+        source:      STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+        destination: STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+        condition:   isBackwardPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'search':
+                    intent.anchor.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
     },
     {
-        id:          'SELECT_QUICK_SEP_1',
-        source:      STATE.ANCHOR_LINE,
-        destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.QUICK_SELECT_SEPARATOR,
-        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+        id:          'ANCHOR_SEARCH_BACKWARD_ESCAPE',
+        source:      STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+        destination: STATE.ANCHOR_LINE_BACKWARD_PATTERN_ESCAPE,
+        condition:   'PATTERN_ESCAPE',
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'search':
+                    intent.anchor.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
     },
     {
-        id:          'SELECT_SEP_2',
-        source:      STATE.ANCHOR_CHAR,
-        destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.SELECT_SEPARATOR,
-        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+        id:          'ANCHOR_SEARCH_BACKWARD_ESCAPED',
+        source:      STATE.ANCHOR_LINE_BACKWARD_PATTERN_ESCAPE,
+        destination: STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+        condition:   isEscapedPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'search':
+                    intent.anchor.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
     },
     {
-        id:          'SELECT_QUICK_SEP_2',
-        source:      STATE.ANCHOR_CHAR,
-        destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.QUICK_SELECT_SEPARATOR,
-        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
-    },    {
-        id:          'SELECT_SEP_3',
-        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        id:          'ANCHOR_SEARCH_BACKWARD_END',
+        source:      STATE.ANCHOR_LINE_BACKWARD_PATTERN,
+        destination: STATE.ANCHOR_LINE_SEARCH,
+        condition:   'SEARCH_BACKWARD_DELIMITER',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SEP_5',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SHORT_5A',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_5B',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_5C',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_5D',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'SELECT_SEP_10',
+        source:      STATE.ANCHOR_LINE_SEARCH,
         destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.SELECT_SEPARATOR,
+        condition:   'SELECT_SEPARATOR',
         callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
     },
     {
-        id:          'SELECT_QUICK_SEP_3',
-        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        id:          'SELECT_QUICK_SEP_6',
+        source:      STATE.ANCHOR_LINE_SEARCH,
         destination: STATE.ACTIVE_START,
-        condition:   TERMINAL.QUICK_SELECT_SEPARATOR,
+        condition:   'QUICK_SELECT_SEPARATOR',
         callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
     },
-
-    // Transitions for active term
     {
-        id:          'ACTIVE_LINE_REL_NEG',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_LINE_SIGN_PREFIX,
-        condition:   TERMINAL.NEGATIVE_SIGN_PREFIX,
-        callback:    (intent) => intent.active.line = { kind: 'negativeRelative', magnitude: '' }
+        id:          'ANCHOR_VIEWPORT_TOP',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_VIEWPORT,
+        condition:   'TOP_OF_VIEWPORT',
+        callback:    (intent) => intent.anchor.line = { kind: 'viewport', edge: 'top', offset: { kind: 'none' } }
     },
     {
-        id:          'ACTIVE_LINE_REL_POS',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_LINE_SIGN_PREFIX,
-        condition:   TERMINAL.POSITIVE_SIGN_PREFIX,
-        callback:    (intent) => intent.active.line = { kind: 'positiveRelative', magnitude: '' }
+        id:          'ANCHOR_VIEWPORT_MIDDLE',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_VIEWPORT,
+        condition:   'MIDDLE_OF_VIEWPORT',
+        callback:    (intent) => intent.anchor.line = { kind: 'viewport', edge: 'middle', offset: { kind: 'none' } }
     },
     {
-        id:          'ACTIVE_LINE_ABS',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_LINE,
-        condition:   DIGIT_TERMINALS,
-        callback:    (intent, token) => intent.active.line = { kind: 'absolute', magnitude: token }
+        id:          'ANCHOR_VIEWPORT_BOTTOM',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_VIEWPORT,
+        condition:   'BOTTOM_OF_VIEWPORT',
+        callback:    (intent) => intent.anchor.line = { kind: 'viewport', edge: 'bottom', offset: { kind: 'none' } }
     },
     {
-        id:          'ACTIVE_LINE_REL_MAG',
-        source:      STATE.ACTIVE_LINE_SIGN_PREFIX,
-        destination: STATE.ACTIVE_LINE,
+        id:          'ANCHOR_VIEWPORT_REL_POS',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_LINE_VIEWPORT_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.anchor.line.kind) {
+                case 'viewport':
+                    intent.anchor.line.offset = { kind: 'positiveRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_VIEWPORT_REL_NEG',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_LINE_VIEWPORT_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.anchor.line.kind) {
+                case 'viewport':
+                    intent.anchor.line.offset = { kind: 'negativeRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_VIEWPORT_REL_MAG',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_SIGN_PREFIX,
+        destination: STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
         condition:   DIGIT_TERMINALS,
         callback:    (intent, token) => {
-            switch (intent.active.line.kind) {
-                case 'positiveRelative': 
-                case 'negativeRelative': 
-                    intent.active.line.magnitude += token;
+            switch (intent.anchor.line.kind) {
+                case 'viewport':
+                    switch (intent.anchor.line.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.anchor.line.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
                     break;
-                default:
+                default: 
                     throw new Error('Unreachable!');
             }
         }
     },
     {
-        id:          'ACTIVE_LINE_MAG',
-        source:      STATE.ACTIVE_LINE,
-        destination: STATE.ACTIVE_LINE,
+        id:          'ANCHOR_VIEWPORT_MAG',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
         condition:   DIGIT_TERMINALS,
         callback:    (intent, token) => {
-            switch (intent.active.line.kind) {
-                case 'absolute':
-                case 'positiveRelative': 
-                case 'negativeRelative': 
-                    intent.active.line.magnitude += token;       
+            switch (intent.anchor.line.kind) {
+                case 'viewport':
+                    switch (intent.anchor.line.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.anchor.line.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
                     break;
-                default:
+                default: 
                     throw new Error('Unreachable!');
             }
         }
     },
     {
-        id:          'ACTIVE_SEP_1',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
-        condition:   TERMINAL.COORDINATE_SEPARATOR,
+        id:          'ANCHOR_SEP_6',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
         callback:    () => {}
     },
     {
-        id:          'ACTIVE_SEP_2',
-        source:      STATE.ACTIVE_LINE,
-        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
-        condition:   TERMINAL.COORDINATE_SEPARATOR,
-        callback:    () => {}
+        id:          'ANCHOR_SHORT_6A',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
     },
     {
-        id:          'ACTIVE_SHORT_1A',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT,
-        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+        id:          'ANCHOR_SHORT_6B',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
     },
     {
-        id:          'ACTIVE_SHORT_1B',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT,
-        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+        id:          'ANCHOR_SHORT_6C',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
     },
     {
-        id:          'ACTIVE_SHORT_1C',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.START_OF_LINE_SHORTCUT,
-        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+        id:          'ANCHOR_SHORT_6D',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
     },
     {
-        id:          'ACTIVE_SHORT_1D',
-        source:      STATE.ACTIVE_START,
-        destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.END_OF_LINE_SHORTCUT,
-        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+        id:          'ANCHOR_FIND_7',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
     },
     {
-        id:          'ACTIVE_SHORT_2A',
-        source:      STATE.ACTIVE_LINE,
-        destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT,
-        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+        id:          'ANCHOR_SEP_7',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
     },
     {
-        id:          'ACTIVE_SHORT_2B',
-        source:      STATE.ACTIVE_LINE,
-        destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT,
-        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
-    },
+        id:          'ANCHOR_SHORT_7A',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_7B',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_7C',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_7D',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_FIND_8',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'SELECT_SEP_12',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_8',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'SELECT_SEP_13',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_9',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'ANCHOR_PARAGRAPH',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_PARAGRAPH,
+        condition:   PARAGRAPH_TERMINALS,
+        callback:    (intent, token) => intent.anchor.line = newParagraphTerm(token, '1')
+    },
+    {
+        id:          'ANCHOR_PARAGRAPH_COUNT',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_LINE_PARAGRAPH,
+        condition:   PARAGRAPH_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.anchor.line = newParagraphTerm(token, intent.anchor.line.magnitude);
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SEP_8',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SHORT_8A',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_8B',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_8C',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_8D',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_FIND_9',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'SELECT_SEP_14',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_10',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'ANCHOR_INDENTATION',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_LINE_INDENTATION,
+        condition:   INDENTATION_BLOCK_TERMINALS,
+        callback:    (intent, token) => intent.anchor.line = newIndentationBlockTerm(token, '1')
+    },
+    {
+        id:          'ANCHOR_INDENTATION_COUNT',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_LINE_INDENTATION,
+        condition:   INDENTATION_BLOCK_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.anchor.line = newIndentationBlockTerm(token, intent.anchor.line.magnitude);
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SEP_9',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SHORT_9A',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_9B',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_9C',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_9D',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_FIND_10',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'SELECT_SEP_15',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_11',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'ANCHOR_OFFSET',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_OFFSET_PREFIX,
+        condition:   'OFFSET_PREFIX',
+        callback:    (intent) => intent.anchor.position = { kind: 'characterOffset', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_OFFSET_BYTE',
+        source:      STATE.ANCHOR_OFFSET_PREFIX,
+        destination: STATE.ANCHOR_BYTE_OFFSET_PREFIX,
+        condition:   'BYTE_OFFSET_PREFIX',
+        callback:    (intent) => intent.anchor.position = { kind: 'byteOffset', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_OFFSET_MAG_1',
+        source:      STATE.ANCHOR_OFFSET_PREFIX,
+        destination: STATE.ANCHOR_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'characterOffset':
+                case 'byteOffset':
+                    intent.anchor.position.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_OFFSET_MAG_2',
+        source:      STATE.ANCHOR_BYTE_OFFSET_PREFIX,
+        destination: STATE.ANCHOR_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'characterOffset':
+                case 'byteOffset':
+                    intent.anchor.position.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_OFFSET_MAG_3',
+        source:      STATE.ANCHOR_OFFSET,
+        destination: STATE.ANCHOR_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'characterOffset':
+                case 'byteOffset':
+                    intent.anchor.position.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'SELECT_SEP_6',
+        source:      STATE.ANCHOR_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'ANCHOR_MARK',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_MARK_PREFIX,
+        condition:   'MARK_PREFIX',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_MARK_NAME',
+        source:      STATE.ANCHOR_MARK_PREFIX,
+        destination: STATE.ANCHOR_MARK,
+        condition:   isMarkName,
+        callback:    (intent, token) => intent.anchor.position = { kind: 'mark', name: token }
+    },
+    {
+        id:          'SELECT_SEP_7',
+        source:      STATE.ANCHOR_MARK,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'ANCHOR_BRACKET',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_MATCHING_BRACKET,
+        condition:   'MATCHING_BRACKET',
+        callback:    (intent) => intent.anchor.position = { kind: 'matchingBracket' }
+    },
+    {
+        id:          'SELECT_SEP_16',
+        source:      STATE.ANCHOR_MATCHING_BRACKET,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'ANCHOR_SYMBOL',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_SYMBOL_PREFIX,
+        condition:   'SYMBOL_PREFIX',
+        callback:    (intent) => intent.anchor.position = { kind: 'symbol', name: '', offset: { kind: 'none' } }
+    },
+    {
+        id:          'ANCHOR_SYMBOL_NAME_1',
+        source:      STATE.ANCHOR_SYMBOL_PREFIX,
+        destination: STATE.ANCHOR_SYMBOL,
+        condition:   isSymbolNameCharacter,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'symbol':
+                    intent.anchor.position.name += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SYMBOL_NAME_2',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ANCHOR_SYMBOL,
+        condition:   isSymbolNameCharacter,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'symbol':
+                    intent.anchor.position.name += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SYMBOL_REL_POS',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ANCHOR_SYMBOL_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.anchor.position.kind) {
+                case 'symbol':
+                    intent.anchor.position.offset = { kind: 'positiveRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SYMBOL_REL_NEG',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ANCHOR_SYMBOL_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.anchor.position.kind) {
+                case 'symbol':
+                    intent.anchor.position.offset = { kind: 'negativeRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SYMBOL_REL_MAG',
+        source:      STATE.ANCHOR_SYMBOL_SIGN_PREFIX,
+        destination: STATE.ANCHOR_SYMBOL_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'symbol':
+                    switch (intent.anchor.position.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.anchor.position.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_SYMBOL_MAG',
+        source:      STATE.ANCHOR_SYMBOL_OFFSET,
+        destination: STATE.ANCHOR_SYMBOL_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.position.kind) {
+                case 'symbol':
+                    switch (intent.anchor.position.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.anchor.position.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'SELECT_SEP_8',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_SEP_9',
+        source:      STATE.ANCHOR_SYMBOL_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'ANCHOR_SEP_1',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SEP_2',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ANCHOR_SHORT_1A',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_1B',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_1C',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_1D',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_2A',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_2B',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_2C',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_2D',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_10A',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_10B',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_10C',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_SHORT_10D',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.anchor.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ANCHOR_CHAR_REL_NEG',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.anchor.character = { kind: 'negativeRelative', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_CHAR_REL_POS',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.anchor.character = { kind: 'positiveRelative', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_CHAR_ABS',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ANCHOR_CHAR_REL_MAG',
+        source:      STATE.ANCHOR_CHAR_SIGN_PREFIX,
+        destination: STATE.ANCHOR_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                    intent.anchor.character.magnitude += token;
+                    break;
+                default:
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_CHAR_MAG',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ANCHOR_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                    intent.anchor.character.magnitude += token;       
+                    break;
+                default:
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_CHAR_OP',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ANCHOR_CHAR_OPERATOR,
+        condition:   OPERATOR_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_CHAR_OP_MAG',
+        source:      STATE.ANCHOR_CHAR_OPERATOR,
+        destination: STATE.ANCHOR_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_CHAR_OPEN_1',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.anchor.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ANCHOR_CHAR_OPEN_2',
+        source:      STATE.ANCHOR_CHAR_SIGN_PREFIX,
+        destination: STATE.ANCHOR_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_CHAR_OPEN_3',
+        source:      STATE.ANCHOR_CHAR_OPERATOR,
+        destination: STATE.ANCHOR_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_CHAR_CLOSE',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ANCHOR_CHAR,
+        condition:   'CLOSE_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_VISUAL_COLUMN',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_VISUAL_COLUMN_PREFIX,
+        condition:   'VISUAL_COLUMN_PREFIX',
+        callback:    (intent) => intent.anchor.visualColumn = true
+    },
+    {
+        id:          'ANCHOR_VISUAL_CHAR_REL_NEG',
+        source:      STATE.ANCHOR_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ANCHOR_CHAR_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.anchor.character = { kind: 'negativeRelative', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_VISUAL_CHAR_REL_POS',
+        source:      STATE.ANCHOR_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ANCHOR_CHAR_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.anchor.character = { kind: 'positiveRelative', magnitude: '' }
+    },
+    {
+        id:          'ANCHOR_VISUAL_CHAR_ABS',
+        source:      STATE.ANCHOR_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ANCHOR_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ANCHOR_VISUAL_CHAR_OPEN',
+        source:      STATE.ANCHOR_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ANCHOR_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.anchor.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ANCHOR_FIND_1',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ANCHOR_FIND_2',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => {
+            /* Like in Vim, a number right before the prefix (as in `3f,`) counts the occurrences in 
+            the line of the cursor, instead of being the line number. */
+            if (intent.anchor.line.kind === 'absolute') {
+                intent.anchor.character = newFindCharacterTerm(token, intent.anchor.line);
+                intent.anchor.line      = { kind: 'none' };
+            } else {
+                intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' });
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_FIND_3',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ANCHOR_FIND_4',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ANCHOR_FIND_5',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ANCHOR_FIND_6',
+        source:      STATE.ANCHOR_COORDINATE_SEPARATOR,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.anchor.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ANCHOR_FIND_COUNT',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ANCHOR_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.anchor.character = newFindCharacterTerm(token, intent.anchor.character);
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ANCHOR_FIND_CHAR',
+        source:      STATE.ANCHOR_CHAR_FIND_PREFIX,
+        destination: STATE.ANCHOR_CHAR_FIND,
+        condition:   isCharacterToFind,
+        callback:    (intent, token) => {
+            switch (intent.anchor.character.kind) {
+                case 'findCharacter':
+                    intent.anchor.character.character = token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'SELECT_SEP_11',
+        source:      STATE.ANCHOR_CHAR_FIND,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_7',
+        source:      STATE.ANCHOR_CHAR_FIND,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'SELECT_FROM_ANCHOR_SEP',
+        source:      STATE.START,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT_FROM_CURSOR
+    },
+    {
+        id:          'SELECT_FROM_ANCHOR_QUICK_SEP',
+        source:      STATE.START,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT_FROM_CURSOR
+    },
+    {
+        id:          'PER_CURSOR',
+        source:      STATE.START,
+        destination: STATE.START,
+        condition:   'PER_CURSOR_PREFIX',
+        callback:    (intent) => intent.perCursor = true
+    },
+    {
+        id:          'ADJUST_ACTIVE_SEP',
+        source:      STATE.START,
+        destination: STATE.ACTIVE_START,
+        condition:   'ADJUST_ACTIVE_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ADJUST_ACTIVE
+    },
+    {
+        id:          'ADJUST_ANCHOR_SEP',
+        source:      STATE.START,
+        destination: STATE.ACTIVE_START,
+        condition:   'ADJUST_ANCHOR_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ADJUST_ANCHOR
+    },
+    {
+        id:          'SELECT_SEP_1',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_1',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'SELECT_SEP_2',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_2',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },    {
+        id:          'SELECT_SEP_3',
+        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        destination: STATE.ACTIVE_START,
+        condition:   'SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.SELECT
+    },
+    {
+        id:          'SELECT_QUICK_SEP_3',
+        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        destination: STATE.ACTIVE_START,
+        condition:   'QUICK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.QUICK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_1',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_2',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_3',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_4',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_5',
+        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_6',
+        source:      STATE.ANCHOR_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_7',
+        source:      STATE.ANCHOR_MARK,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_8',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_9',
+        source:      STATE.ANCHOR_SYMBOL_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_10',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_11',
+        source:      STATE.ANCHOR_CHAR_FIND,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_12',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_13',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_14',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_15',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'BLOCK_SELECT_SEP_16',
+        source:      STATE.ANCHOR_MATCHING_BRACKET,
+        destination: STATE.ACTIVE_START,
+        condition:   'BLOCK_SELECT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.BLOCK_SELECT
+    },
+    {
+        id:          'ENCLOSING_PAIR_1',
+        source:      STATE.START,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_2',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_3',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_4',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_5',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_6',
+        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_7',
+        source:      STATE.ANCHOR_OFFSET,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_8',
+        source:      STATE.ANCHOR_MARK,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_9',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_10',
+        source:      STATE.ANCHOR_SYMBOL_OFFSET,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_11',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_12',
+        source:      STATE.ANCHOR_CHAR_FIND,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_13',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_14',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_15',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_16',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'ENCLOSING_PAIR_17',
+        source:      STATE.ANCHOR_MATCHING_BRACKET,
+        destination: STATE.ANCHOR_ENCLOSING_PAIR,
+        condition:   'ENCLOSING_PAIR_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.ENCLOSING_PAIR
+    },
+    {
+        id:          'COUNT_SEP_1',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_2',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_3',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_4',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_5',
+        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_6',
+        source:      STATE.ANCHOR_OFFSET,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_7',
+        source:      STATE.ANCHOR_MARK,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_8',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_9',
+        source:      STATE.ANCHOR_SYMBOL_OFFSET,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_10',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_11',
+        source:      STATE.ANCHOR_CHAR_FIND,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_12',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_13',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_14',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_15',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+    {
+        id:          'COUNT_SEP_16',
+        source:      STATE.ANCHOR_MATCHING_BRACKET,
+        destination: STATE.ACTIVE_COUNT_SEPARATOR,
+        condition:   'COUNT_SEPARATOR',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.LINE_COUNT
+    },
+
+    // Transitions for active term
+    {
+        id:          'ACTIVE_LINE_REL_NEG',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.line = { kind: 'negativeRelative', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_LINE_REL_POS',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.line = { kind: 'positiveRelative', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_LINE_ABS',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.active.line = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_LINE_PREFIX',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_PREFIX,
+        condition:   'LINE_PREFIX',
+        callback:    (intent) => intent.active.line = { kind: 'absolute', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_LINE_PREFIX_MAG',
+        source:      STATE.ACTIVE_LINE_PREFIX,
+        destination: STATE.ACTIVE_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_REL_MAG',
+        source:      STATE.ACTIVE_LINE_SIGN_PREFIX,
+        destination: STATE.ACTIVE_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                    intent.active.line.magnitude += token;
+                    break;
+                default:
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_MAG',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.active.line.magnitude += token;       
+                    break;
+                default:
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_OP',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_LINE_OPERATOR,
+        condition:   OPERATOR_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_OP_MAG',
+        source:      STATE.ACTIVE_LINE_OPERATOR,
+        destination: STATE.ACTIVE_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_OPEN_1',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.active.line = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_LINE_OPEN_2',
+        source:      STATE.ACTIVE_LINE_SIGN_PREFIX,
+        destination: STATE.ACTIVE_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_OPEN_3',
+        source:      STATE.ACTIVE_LINE_END_SIGN_PREFIX,
+        destination: STATE.ACTIVE_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'fromEnd':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_OPEN_4',
+        source:      STATE.ACTIVE_LINE_OPERATOR,
+        destination: STATE.ACTIVE_LINE_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_CLOSE',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_LINE,
+        condition:   'CLOSE_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                case 'fromEnd':
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_LINE_PERCENTAGE',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_LINE_PERCENTAGE,
+        condition:   'PERCENTAGE_SUFFIX',
+        callback:    (intent) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.active.line = { kind: 'percentage', term: intent.active.line };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEP_3',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_3A',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_3B',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_3C',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_3D',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_LINE_END',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_END,
+        condition:   'END_OF_DOCUMENT',
+        callback:    (intent) => intent.active.line = { kind: 'fromEnd', magnitude: '0' }
+    },
+    {
+        id:          'ACTIVE_LINE_END_REL_NEG',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_LINE_END_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.line = { kind: 'fromEnd', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_LINE_END_REL_MAG',
+        source:      STATE.ACTIVE_LINE_END_SIGN_PREFIX,
+        destination: STATE.ACTIVE_LINE,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'fromEnd': 
+                    intent.active.line.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEP_4',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_4A',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_4B',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_4C',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_4D',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SEARCH_FORWARD',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_FORWARD_PATTERN,
+        condition:   'SEARCH_FORWARD_DELIMITER',
+        callback:    (intent) => intent.active.line = { kind: 'search', direction: 'forward', pattern: '' }
+    },
+    {
+        id:          'ACTIVE_SEARCH_FORWARD_PATTERN',
+        source:      STATE.ACTIVE_LINE_FORWARD_PATTERN,
+        destination: STATE.ACTIVE_LINE_FORWARD_PATTERN,
+        condition:   isForwardPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'search':
+                    intent.active.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEARCH_FORWARD_ESCAPE',
+        source:      STATE.ACTIVE_LINE_FORWARD_PATTERN,
+        destination: STATE.ACTIVE_LINE_FORWARD_PATTERN_ESCAPE,
+        condition:   'PATTERN_ESCAPE',
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'search':
+                    intent.active.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEARCH_FORWARD_ESCAPED',
+        source:      STATE.ACTIVE_LINE_FORWARD_PATTERN_ESCAPE,
+        destination: STATE.ACTIVE_LINE_FORWARD_PATTERN,
+        condition:   isEscapedPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'search':
+                    intent.active.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEARCH_FORWARD_END',
+        source:      STATE.ACTIVE_LINE_FORWARD_PATTERN,
+        destination: STATE.ACTIVE_LINE_SEARCH,
+        condition:   'SEARCH_FORWARD_DELIMITER',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SEARCH_BACKWARD',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+        condition:   'SEARCH_BACKWARD_DELIMITER',
+        callback:    (intent) => intent.active.line = { kind: 'search', direction: 'backward', pattern: '' }
+    },
+    {
+        id:          'ACTIVE_SEARCH_BACKWARD_PATTERN',
+        source:      STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+        destination: STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+        condition:   isBackwardPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'search':
+                    intent.active.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEARCH_BACKWARD_ESCAPE',
+        source:      STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+        destination: STATE.ACTIVE_LINE_BACKWARD_PATTERN_ESCAPE,
+        condition:   'PATTERN_ESCAPE',
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'search':
+                    intent.active.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEARCH_BACKWARD_ESCAPED',
+        source:      STATE.ACTIVE_LINE_BACKWARD_PATTERN_ESCAPE,
+        destination: STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+        condition:   isEscapedPatternCharacter,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'search':
+                    intent.active.line.pattern += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEARCH_BACKWARD_END',
+        source:      STATE.ACTIVE_LINE_BACKWARD_PATTERN,
+        destination: STATE.ACTIVE_LINE_SEARCH,
+        condition:   'SEARCH_BACKWARD_DELIMITER',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SEP_5',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_5A',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_5B',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_5C',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_5D',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_TOP',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_VIEWPORT,
+        condition:   'TOP_OF_VIEWPORT',
+        callback:    (intent) => intent.active.line = { kind: 'viewport', edge: 'top', offset: { kind: 'none' } }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_MIDDLE',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_VIEWPORT,
+        condition:   'MIDDLE_OF_VIEWPORT',
+        callback:    (intent) => intent.active.line = { kind: 'viewport', edge: 'middle', offset: { kind: 'none' } }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_BOTTOM',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_VIEWPORT,
+        condition:   'BOTTOM_OF_VIEWPORT',
+        callback:    (intent) => intent.active.line = { kind: 'viewport', edge: 'bottom', offset: { kind: 'none' } }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_REL_POS',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_LINE_VIEWPORT_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.active.line.kind) {
+                case 'viewport':
+                    intent.active.line.offset = { kind: 'positiveRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_REL_NEG',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_LINE_VIEWPORT_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.active.line.kind) {
+                case 'viewport':
+                    intent.active.line.offset = { kind: 'negativeRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_REL_MAG',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_SIGN_PREFIX,
+        destination: STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'viewport':
+                    switch (intent.active.line.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.active.line.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_VIEWPORT_MAG',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'viewport':
+                    switch (intent.active.line.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.active.line.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEP_6',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_6A',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_6B',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_6C',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_6D',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_FIND_7',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_SEP_7',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_7A',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_7B',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_7C',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_7D',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_FIND_8',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_PARAGRAPH',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_PARAGRAPH,
+        condition:   PARAGRAPH_TERMINALS,
+        callback:    (intent, token) => intent.active.line = newParagraphTerm(token, '1')
+    },
+    {
+        id:          'ACTIVE_PARAGRAPH_COUNT',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_LINE_PARAGRAPH,
+        condition:   PARAGRAPH_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.active.line = newParagraphTerm(token, intent.active.line.magnitude);
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEP_8',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_8A',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_8B',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_8C',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_8D',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_FIND_9',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_INDENTATION',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_LINE_INDENTATION,
+        condition:   INDENTATION_BLOCK_TERMINALS,
+        callback:    (intent, token) => intent.active.line = newIndentationBlockTerm(token, '1')
+    },
+    {
+        id:          'ACTIVE_INDENTATION_COUNT',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_LINE_INDENTATION,
+        condition:   INDENTATION_BLOCK_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.line.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                case 'fromEnd':
+                    intent.active.line = newIndentationBlockTerm(token, intent.active.line.magnitude);
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEP_9',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_9A',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_9B',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_9C',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_9D',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_FIND_10',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_OFFSET',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_OFFSET_PREFIX,
+        condition:   'OFFSET_PREFIX',
+        callback:    (intent) => intent.active.position = { kind: 'characterOffset', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_OFFSET_BYTE',
+        source:      STATE.ACTIVE_OFFSET_PREFIX,
+        destination: STATE.ACTIVE_BYTE_OFFSET_PREFIX,
+        condition:   'BYTE_OFFSET_PREFIX',
+        callback:    (intent) => intent.active.position = { kind: 'byteOffset', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_OFFSET_MAG_1',
+        source:      STATE.ACTIVE_OFFSET_PREFIX,
+        destination: STATE.ACTIVE_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'characterOffset':
+                case 'byteOffset':
+                    intent.active.position.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_OFFSET_MAG_2',
+        source:      STATE.ACTIVE_BYTE_OFFSET_PREFIX,
+        destination: STATE.ACTIVE_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'characterOffset':
+                case 'byteOffset':
+                    intent.active.position.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_OFFSET_MAG_3',
+        source:      STATE.ACTIVE_OFFSET,
+        destination: STATE.ACTIVE_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'characterOffset':
+                case 'byteOffset':
+                    intent.active.position.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_MARK',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_MARK_PREFIX,
+        condition:   'MARK_PREFIX',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_MARK_NAME',
+        source:      STATE.ACTIVE_MARK_PREFIX,
+        destination: STATE.ACTIVE_MARK,
+        condition:   isMarkName,
+        callback:    (intent, token) => intent.active.position = { kind: 'mark', name: token }
+    },
+    {
+        id:          'ACTIVE_BRACKET',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_MATCHING_BRACKET,
+        condition:   'MATCHING_BRACKET',
+        callback:    (intent) => intent.active.position = { kind: 'matchingBracket' }
+    },
+    {
+        id:          'ACTIVE_SYMBOL',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_SYMBOL_PREFIX,
+        condition:   'SYMBOL_PREFIX',
+        callback:    (intent) => intent.active.position = { kind: 'symbol', name: '', offset: { kind: 'none' } }
+    },
+    {
+        id:          'ACTIVE_SYMBOL_NAME_1',
+        source:      STATE.ACTIVE_SYMBOL_PREFIX,
+        destination: STATE.ACTIVE_SYMBOL,
+        condition:   isSymbolNameCharacter,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'symbol':
+                    intent.active.position.name += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SYMBOL_NAME_2',
+        source:      STATE.ACTIVE_SYMBOL,
+        destination: STATE.ACTIVE_SYMBOL,
+        condition:   isSymbolNameCharacter,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'symbol':
+                    intent.active.position.name += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SYMBOL_REL_POS',
+        source:      STATE.ACTIVE_SYMBOL,
+        destination: STATE.ACTIVE_SYMBOL_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.active.position.kind) {
+                case 'symbol':
+                    intent.active.position.offset = { kind: 'positiveRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SYMBOL_REL_NEG',
+        source:      STATE.ACTIVE_SYMBOL,
+        destination: STATE.ACTIVE_SYMBOL_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => {
+            switch (intent.active.position.kind) {
+                case 'symbol':
+                    intent.active.position.offset = { kind: 'negativeRelative', magnitude: '' };
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SYMBOL_REL_MAG',
+        source:      STATE.ACTIVE_SYMBOL_SIGN_PREFIX,
+        destination: STATE.ACTIVE_SYMBOL_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'symbol':
+                    switch (intent.active.position.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.active.position.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SYMBOL_MAG',
+        source:      STATE.ACTIVE_SYMBOL_OFFSET,
+        destination: STATE.ACTIVE_SYMBOL_OFFSET,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.position.kind) {
+                case 'symbol':
+                    switch (intent.active.position.offset.kind) {
+                        case 'positiveRelative':
+                        case 'negativeRelative':
+                            intent.active.position.offset.magnitude += token;
+                            break;
+                        default:
+                            throw new Error('Unreachable!');
+                    }
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_SEP_1',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SEP_2',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_SHORT_1A',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_1B',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_1C',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_1D',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_2A',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_2B',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_2C',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_2D',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_10A',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_10B',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_10C',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_SHORT_10D',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_CHAR_REL_NEG',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.character = { kind: 'negativeRelative', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_CHAR_REL_POS',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.character = { kind: 'positiveRelative', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_CHAR_ABS',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.active.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_CHAR_REL_MAG',
+        source:      STATE.ACTIVE_CHAR_SIGN_PREFIX,
+        destination: STATE.ACTIVE_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                    intent.active.character.magnitude += token;
+                    break;
+                default:
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_CHAR_MAG',
+        source:      STATE.ACTIVE_CHAR,
+        destination: STATE.ACTIVE_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'absolute':
+                case 'positiveRelative': 
+                case 'negativeRelative': 
+                    intent.active.character.magnitude += token;       
+                    break;
+                default:
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_CHAR_OP',
+        source:      STATE.ACTIVE_CHAR,
+        destination: STATE.ACTIVE_CHAR_OPERATOR,
+        condition:   OPERATOR_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_CHAR_OP_MAG',
+        source:      STATE.ACTIVE_CHAR_OPERATOR,
+        destination: STATE.ACTIVE_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_CHAR_OPEN_1',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.active.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_CHAR_OPEN_2',
+        source:      STATE.ACTIVE_CHAR_SIGN_PREFIX,
+        destination: STATE.ACTIVE_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_CHAR_OPEN_3',
+        source:      STATE.ACTIVE_CHAR_OPERATOR,
+        destination: STATE.ACTIVE_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_CHAR_CLOSE',
+        source:      STATE.ACTIVE_CHAR,
+        destination: STATE.ACTIVE_CHAR,
+        condition:   'CLOSE_PARENTHESIS',
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.character.magnitude += token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_VISUAL_COLUMN_1',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_VISUAL_COLUMN_PREFIX,
+        condition:   'VISUAL_COLUMN_PREFIX',
+        callback:    (intent) => intent.active.visualColumn = true
+    },
+    {
+        id:          'ACTIVE_VISUAL_COLUMN_2',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_VISUAL_COLUMN_PREFIX,
+        condition:   'VISUAL_COLUMN_PREFIX',
+        callback:    (intent) => intent.active.visualColumn = true
+    },
+    {
+        id:          'ACTIVE_VISUAL_CHAR_REL_NEG',
+        source:      STATE.ACTIVE_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ACTIVE_CHAR_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.character = { kind: 'negativeRelative', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_VISUAL_CHAR_REL_POS',
+        source:      STATE.ACTIVE_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ACTIVE_CHAR_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
+        callback:    (intent) => intent.active.character = { kind: 'positiveRelative', magnitude: '' }
+    },
+    {
+        id:          'ACTIVE_VISUAL_CHAR_ABS',
+        source:      STATE.ACTIVE_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ACTIVE_CHAR,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.active.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_VISUAL_CHAR_OPEN',
+        source:      STATE.ACTIVE_VISUAL_COLUMN_PREFIX,
+        destination: STATE.ACTIVE_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.active.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_FIND_1',
+        source:      STATE.ACTIVE_START,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_FIND_2',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => {
+            /* Like in Vim, a number right before the prefix (as in `3f,`) counts the occurrences in 
+            the line of the cursor, instead of being the line number. */
+            if (intent.active.line.kind === 'absolute') {
+                intent.active.character = newFindCharacterTerm(token, intent.active.line);
+                intent.active.line      = { kind: 'none' };
+            } else {
+                intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' });
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_FIND_3',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_FIND_4',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_FIND_5',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_FIND_6',
+        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_FIND_COUNT',
+        source:      STATE.ACTIVE_CHAR,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'absolute':
+                case 'positiveRelative':
+                case 'negativeRelative':
+                    intent.active.character = newFindCharacterTerm(token, intent.active.character);
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
     {
-        id:          'ACTIVE_SHORT_2C',
+        id:          'ACTIVE_FIND_CHAR',
+        source:      STATE.ACTIVE_CHAR_FIND_PREFIX,
+        destination: STATE.ACTIVE_CHAR_FIND,
+        condition:   isCharacterToFind,
+        callback:    (intent, token) => {
+            switch (intent.active.character.kind) {
+                case 'findCharacter':
+                    intent.active.character.character = token;
+                    break;
+                default: 
+                    throw new Error('Unreachable!');
+            }
+        }
+    },
+    {
+        id:          'ACTIVE_STEP_1',
         source:      STATE.ACTIVE_LINE,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_2',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_3',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_4',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_5',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_6',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_7',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_8',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.ACTIVE_STEP_SEPARATOR,
+        condition:   'STEP_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_MAG_1',
+        source:      STATE.ACTIVE_STEP_SEPARATOR,
+        destination: STATE.ACTIVE_STEP,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.step += token
+    },
+    {
+        id:          'ACTIVE_STEP_MAG_2',
+        source:      STATE.ACTIVE_STEP,
+        destination: STATE.ACTIVE_STEP,
+        condition:   DIGIT_TERMINALS,
+        callback:    (intent, token) => intent.step += token
+    },
+    {
+        id:          'ACTIVE_STEP_SEP',
+        source:      STATE.ACTIVE_STEP,
+        destination: STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        condition:   'COORDINATE_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_1A',
+        source:      STATE.ACTIVE_STEP,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_1B',
+        source:      STATE.ACTIVE_STEP,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_1C',
+        source:      STATE.ACTIVE_STEP,
         destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.START_OF_LINE_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
         callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
     },
     {
-        id:          'ACTIVE_SHORT_2D',
-        source:      STATE.ACTIVE_LINE,
+        id:          'ACTIVE_STEP_SHORT_1D',
+        source:      STATE.ACTIVE_STEP,
         destination: STATE.ACTIVE_CHAR_SHORTCUT,
-        condition:   TERMINAL.END_OF_LINE_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
         callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
     },
     {
-        id:          'ACTIVE_CHAR_REL_NEG',
-        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        id:          'ACTIVE_STEP_FIND_1',
+        source:      STATE.ACTIVE_STEP,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_2A',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'firstNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_2B',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'ONE_PAST_LAST_NON_WHITESPACE_CHARACTER_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'onePastLastNonWhitespaceCharacterShortcut' }
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_2C',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'START_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'startOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_STEP_SHORT_2D',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_SHORTCUT,
+        condition:   'END_OF_LINE_SHORTCUT',
+        callback:    (intent) => intent.active.character = { kind: 'endOfLineShortcut' }
+    },
+    {
+        id:          'ACTIVE_STEP_FIND_2',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_FIND_PREFIX,
+        condition:   FIND_CHARACTER_TERMINALS,
+        callback:    (intent, token) => intent.active.character = newFindCharacterTerm(token, { kind: 'absolute', magnitude: '1' })
+    },
+    {
+        id:          'ACTIVE_STEP_CHAR_REL_NEG',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
         destination: STATE.ACTIVE_CHAR_SIGN_PREFIX,
-        condition:   TERMINAL.NEGATIVE_SIGN_PREFIX,
+        condition:   'NEGATIVE_SIGN_PREFIX',
         callback:    (intent) => intent.active.character = { kind: 'negativeRelative', magnitude: '' }
     },
     {
-        id:          'ACTIVE_CHAR_REL_POS',
-        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        id:          'ACTIVE_STEP_CHAR_REL_POS',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
         destination: STATE.ACTIVE_CHAR_SIGN_PREFIX,
-        condition:   TERMINAL.POSITIVE_SIGN_PREFIX,
+        condition:   'POSITIVE_SIGN_PREFIX',
         callback:    (intent) => intent.active.character = { kind: 'positiveRelative', magnitude: '' }
     },
     {
-        id:          'ACTIVE_CHAR_ABS',
-        source:      STATE.ACTIVE_COORDINATE_SEPARATOR,
+        id:          'ACTIVE_STEP_CHAR_ABS',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
         destination: STATE.ACTIVE_CHAR,
         condition:   DIGIT_TERMINALS,
         callback:    (intent, token) => intent.active.character = { kind: 'absolute', magnitude: token }
     },
     {
-        id:          'ACTIVE_CHAR_REL_MAG',
-        source:      STATE.ACTIVE_CHAR_SIGN_PREFIX,
-        destination: STATE.ACTIVE_CHAR,
+        id:          'ACTIVE_STEP_CHAR_OPEN',
+        source:      STATE.ACTIVE_STEP_COORDINATE_SEPARATOR,
+        destination: STATE.ACTIVE_CHAR_OPERATOR,
+        condition:   'OPEN_PARENTHESIS',
+        callback:    (intent, token) => intent.active.character = { kind: 'absolute', magnitude: token }
+    },
+    {
+        id:          'ACTIVE_COUNT_MAG_1',
+        source:      STATE.ACTIVE_COUNT_SEPARATOR,
+        destination: STATE.ACTIVE_COUNT,
         condition:   DIGIT_TERMINALS,
-        callback:    (intent, token) => {
-            switch (intent.active.character.kind) {
-                case 'positiveRelative': 
-                case 'negativeRelative': 
-                    intent.active.character.magnitude += token;
-                    break;
-                default:
-                    throw new Error('Unreachable!');
-            }
-        }
+        callback:    (intent, token) => intent.count += token
     },
     {
-        id:          'ACTIVE_CHAR_MAG',
-        source:      STATE.ACTIVE_CHAR,
-        destination: STATE.ACTIVE_CHAR,
+        id:          'ACTIVE_COUNT_MAG_2',
+        source:      STATE.ACTIVE_COUNT,
+        destination: STATE.ACTIVE_COUNT,
         condition:   DIGIT_TERMINALS,
-        callback:    (intent, token) => {
-            switch (intent.active.character.kind) {
-                case 'absolute':
-                case 'positiveRelative': 
-                case 'negativeRelative': 
-                    intent.active.character.magnitude += token;       
-                    break;
-                default:
-                    throw new Error('Unreachable!');
-            }
-        }
+        callback:    (intent, token) => intent.count += token
+    },
+    {
+        id:          'ACTIVE_COUNT_CHARACTERS',
+        source:      STATE.ACTIVE_COUNT,
+        destination: STATE.ACTIVE_COUNT_CHARACTERS,
+        condition:   'CHARACTER_COUNT_SUFFIX',
+        callback:    (intent) => intent.selectionMode = SELECTION_MODE.CHARACTER_COUNT
+    },
+
+    // Transitions for the next target
+    {
+        id:          'TARGET_SEP_1',
+        source:      STATE.ANCHOR_LINE,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_2',
+        source:      STATE.ANCHOR_LINE_PERCENTAGE,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_3',
+        source:      STATE.ANCHOR_LINE_END,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_4',
+        source:      STATE.ANCHOR_CHAR,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_5',
+        source:      STATE.ANCHOR_CHAR_SHORTCUT,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_6',
+        source:      STATE.ACTIVE_LINE,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_7',
+        source:      STATE.ACTIVE_LINE_PERCENTAGE,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_8',
+        source:      STATE.ACTIVE_LINE_END,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_9',
+        source:      STATE.ACTIVE_CHAR,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_10',
+        source:      STATE.ACTIVE_CHAR_SHORTCUT,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_11',
+        source:      STATE.ANCHOR_OFFSET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_12',
+        source:      STATE.ACTIVE_OFFSET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_13',
+        source:      STATE.ANCHOR_MARK,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_14',
+        source:      STATE.ACTIVE_MARK,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_15',
+        source:      STATE.ANCHOR_SYMBOL,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_16',
+        source:      STATE.ANCHOR_SYMBOL_OFFSET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_17',
+        source:      STATE.ACTIVE_SYMBOL,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_18',
+        source:      STATE.ACTIVE_SYMBOL_OFFSET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_19',
+        source:      STATE.ANCHOR_LINE_SEARCH,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_20',
+        source:      STATE.ACTIVE_LINE_SEARCH,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_21',
+        source:      STATE.ANCHOR_CHAR_FIND,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_22',
+        source:      STATE.ACTIVE_CHAR_FIND,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_23',
+        source:      STATE.ANCHOR_LINE_VIEWPORT,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_24',
+        source:      STATE.ANCHOR_LINE_VIEWPORT_OFFSET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_25',
+        source:      STATE.ACTIVE_LINE_VIEWPORT,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_26',
+        source:      STATE.ACTIVE_LINE_VIEWPORT_OFFSET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_27',
+        source:      STATE.ACTIVE_STEP,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_28',
+        source:      STATE.ANCHOR_LINE_PARAGRAPH,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_29',
+        source:      STATE.ACTIVE_LINE_PARAGRAPH,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_30',
+        source:      STATE.ANCHOR_LINE_INDENTATION,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_31',
+        source:      STATE.ACTIVE_LINE_INDENTATION,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_32',
+        source:      STATE.ANCHOR_MATCHING_BRACKET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_33',
+        source:      STATE.ACTIVE_MATCHING_BRACKET,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_34',
+        source:      STATE.ANCHOR_ENCLOSING_PAIR,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_35',
+        source:      STATE.ACTIVE_COUNT,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
+    },
+    {
+        id:          'TARGET_SEP_36',
+        source:      STATE.ACTIVE_COUNT_CHARACTERS,
+        destination: STATE.START,
+        condition:   'TARGET_SEPARATOR',
+        callback:    () => {}
     }
 ];
 
-/** 
- * Type of `Map` that contains all possible transitions out of a state. 
- * 
- * @key 
- * 
- * @value 
- * 
- * */
-/** Type of a `Map` that maps each terminal to a destination. */
-type OutMap = ;
-
-// TODO: make this an ES6 Map type constructed from the Transition Graph
-// TODO: explain this shit
-
-
-/** 
- * The state map of the finite automation. 
- * 
- * We access the state map via the `get` method by providing a source state. This yields a 
- * `DestinationMap` type which maps each possible terminal from the source state to 
- * 
- * 
- * 
- * Accessing the state map gives us a `DESTINATION
- * 
- * 
- * 
- * State map that maps each state to a destination map. This destination map maps each terminal */
-const STATE_MAP = new Map<
-    STATE, 
-    Map<TERMINAL, { destination: STATE, callback: (intent: Intent, token: string) => void }>
->;
-
-//TODO: make sure that this checks and throws if there is more than one possible transition for a TERMINAL
-for (const { source, destination, condition, callback } of TRANSITIONS) {
-    if (STATE_MAP.has(source)) {
-        STATE_MAP.get(source)
-
-
-
+/** The transitions out of each state, in the same order as they are in `TRANSITIONS`. */
+const TRANSITIONS_FROM = new Map<STATE, Transition[]>();
 
+for (const transition of TRANSITIONS) {
+    const transitions = TRANSITIONS_FROM.get(transition.source);
+    if (transitions) {
+        transitions.push(transition);
     } else {
-        STATE_MAP.set(source, new Map());
-
+        TRANSITIONS_FROM.set(transition.source, [ transition ]);
     }
-
-
-
 }
 
+/** Get the transitions out of `state`, in the order that they are tried. */
+function transitionsFrom(state: STATE): ReadonlyArray<Transition> {
+    return TRANSITIONS_FROM.get(state) || [];
+}
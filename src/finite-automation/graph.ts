@@ -0,0 +1,104 @@
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { STATE, ACCEPT_STATES, TRANSITIONS, Transition, Ambiguity, describeCondition, findAmbiguities } from './finite-automation';
+import { DEFAULT_TERMINALS } from '../grammar/terminal';
+
+/*
+ * The graph `graph.gv` (located in the extension's root directory) is generated from `TRANSITIONS`
+ * by this module, so that it always documents the finite automation as it is. To regenerate it, run
+ * `npm run graph`.
+ */
+
+/** Get the DOT source of the graph of the finite automation, with the default symbols as labels. */
+export function generateGraph(): string {
+    const lines = [
+        '// Generated by `src/finite-automation/graph.ts` from the transitions of the finite automation.',
+        '// Run `npm run graph` to regenerate it instead of editing it.',
+        'digraph {',
+        '',
+        '    rankdir=LR;',
+        '    graph [pad="1.5"]',
+        '    node [shape=circle fixedsize=true, height=3.5 fontsize=14];',
+        '    edge [fontsize=14 fontname="arial"]',
+        '',
+        '    // ------------------------------------------------------------------',
+        '    // ACCEPT STATES',
+        '    {',
+        '        node [shape=doublecircle, style=filled]',
+        ...ACCEPT_STATES.map(state =>
+            `        ${STATE[state]} [fillcolor=${STATE[state].startsWith('ANCHOR') ? 'darkgoldenrod1' : 'firebrick3'}];`
+        ),
+        '    }',
+        '',
+        '    // ------------------------------------------------------------------',
+        '    // TRANSIENT ARROW INTO FINITE AUTOMATION',
+        '    {',
+        '        INCOMING [style=invisible, height=0]',
+        `        INCOMING -> ${STATE[STATE.START]}`,
+        '        [label=<<b>Start of finite automation</b>> style=dashed]',
+        '    }',
+        '',
+        '    // ------------------------------------------------------------------',
+        '    // TRANSITIONS',
+    ];
+    for (const { id, source, destination, condition } of TRANSITIONS) {
+        const symbols = describeCondition(condition, DEFAULT_TERMINALS).map(escape).join(' ');
+        lines.push(
+            '',
+            `    ${STATE[source]} -> ${STATE[destination]}`,
+            `    [label=<${id}<br/><b>Condition: ${symbols}</b>>];`
+        );
+    }
+    lines.push('', '}', '');
+    return lines.join('\n');
+
+    /** Escape the characters that have a special meaning in the HTML-like labels of DOT. */
+    function escape(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+}
+
+/**
+ * Find the problems in the graph of the finite automation, which are states that cannot be reached
+ * from `START`, states that an accept state cannot be reached from, and ambiguous transitions.
+ *
+ * @return A message for each problem found.
+ */
+export function findGraphProblems(): string[] {
+    const states       = Object.values(STATE).filter((state): state is STATE => typeof state === 'number');
+    const reachable    = closureOf([ STATE.START ], ({ source }) => source, ({ destination }) => destination);
+    const canTerminate = closureOf(ACCEPT_STATES, ({ destination }) => destination, ({ source }) => source);
+    return [
+        ...states.filter(state => !reachable.has(state)).map(state => `${STATE[state]} is unreachable.`),
+        ...states.filter(state => !canTerminate.has(state)).map(state => `${STATE[state]} is a dead state.`),
+        ...findAmbiguities().map(describeAmbiguity)
+    ];
+
+    /** Get the states that can be walked to from `start` by following the transitions `from` `to`. */
+    function closureOf(
+        start: ReadonlyArray<STATE>,
+        from:  (transition: Transition) => STATE,
+        to:    (transition: Transition) => STATE
+    ): Set<STATE> {
+        const visited = new Set(start);
+        const pending = [ ...start ];
+        while (pending.length > 0) {
+            const state = pending.pop() as STATE;
+            for (const transition of TRANSITIONS.filter(transition => from(transition) === state)) {
+                if (!visited.has(to(transition))) {
+                    visited.add(to(transition));
+                    pending.push(to(transition));
+                }
+            }
+        }
+        return visited;
+    }
+
+    function describeAmbiguity({ state, symbol, first, second }: Ambiguity): string {
+        return `${first.id} and ${second.id} can both read '${symbol}' after ${STATE[state]}.`;
+    }
+}
+
+if (require.main === module) {
+    writeFileSync(join(__dirname, '..', '..', 'graph.gv'), generateGraph());
+}
@@ -1,9 +1,9 @@
-import { Coordinate } from './coordinate/coordinate';
+import { Position, Range, TextDocument, TextLine } from 'vscode';
 import { SELECTION_MODE } from './selection-mode';
-import { TextEditor } from 'vscode';
-import { Configuration } from '../configuration';
-import { ACTIVE_RELATIVE_TO_CONFIG } from '../configuration/active-relative-to';
 import { TERMINAL } from '../grammar/terminal';
+import { evaluateExpression } from '../grammar/expression';
+import { nextGraphemeClusterIndex, previousGraphemeClusterIndex, previousCodePointIndex, characterIndexToGraphemeIndex, graphemeIndexToCharacterIndex } from '../grapheme-clusters';
+import { findMatchingBracket } from '../brackets';
 
 /** 
  * A builder type used to contain information parsed from the input with a finite automation. 
@@ -13,57 +13,45 @@ import { TERMINAL } from '../grammar/terminal';
  * document. However, if the finite automation rejects the input then the resulting `Intent` should
  * be discarded as it will contain undefined information.
  */
-export class Intent {
-    
-    // TODO: Finish describing this
-    public constructor(
-        private readonly editor:        TextEditor, 
-        private readonly configuration: Configuration
-    ) {}
+export interface Intent {
 
     /** 
-     * If the `anchor` `Coordinate` contains `Relative` variants, then they will be calculated against
-     * the position of the primary cursor.
+     * Specifies the `anchor` position of the resulting `Selection`. Its relative terms are 
+     * calculated against the position of the cursor.
      */
-    private anchorReference: Position = this.editor.selection.active;
-
-    /** Specifies the `anchor` position of the resulting `Selection`. */
-    private anchor: Coordinate = {
-
-        // By default the anchor is placed on the line that the primary cursor is on
-        line: { kind: 'positiveRelative', magnitude: '' },
-
-        // If left unspecified, the horizontal position will default to this
-        character: shortcutTerminalToCharacterTerm(this.configuration.defaultCharacterBehavior)
-
-    };
-
+    anchor: Coordinate;
 
+    /** Specifies the `active` position of the resulting `Selection`. */
+    active: Coordinate;
 
     /** 
-     * If the `active` `Coordinate` contains `Relative` variants, then they will be calculated against
-     * the `anchor` `Coordinate`.
+     * Unless a 'selection separator token' is read, the input should be interpreted as a single 
+     * location in the document to 'Go To' 
      */
-    private activeReference: Coordinate = this.anchor;
+    selectionMode: SELECTION_MODE;
 
-    /** Specifies the `anchor` position of the resulting `Selection`. */
-    private _active: Coordinate | undefined;
+    /** 
+     * The digits of the number N such that only every Nth line of the selected range is targeted. 
+     * Left empty unless a 'step separator token' is read.
+     */
+    step: string;
 
-    private get active(): Coordinate :
+    /** 
+     * Whether this target is resolved against each of the cursors instead of only the primary one.
+     * Set when a 'per cursor prefix token' is read.
+     */
+    perCursor: boolean;
 
     /** 
-     * Unless a 'selection separator token' is read, the input should be interpreted as a single 
-     * location in the document to 'Go To' 
+     * The digits of the number of lines (or characters) that are targeted from the `anchor` onwards.
+     * Left empty unless a 'count separator token' is read.
      */
-    private selectionMode: SELECTION_MODE = SELECTION_MODE.NONE;
+    count: string;
 
-    // TODO: Create a constructor here and move the default initiailization from `Finite Automation`
-    // to here
-  
 }
 
 /** A unit formed from two terms that together specify a location in a text editor. */
-interface Coordinate {
+export interface Coordinate {
 
     /** Term representing the line number of the coordinate. */
     line: LineTerm | None;
@@ -71,9 +59,25 @@ interface Coordinate {
     /** Term representing the character number of the coordinate. */
     character: CharacterTerm | None;
 
+    /** 
+     * Term representing the whole position of the coordinate, such as an offset from the start of 
+     * the document. 
+     * 
+     * This term specifies both the line and character of the coordinate by itself, so if it is not
+     * of `none` kind then the other two terms are ignored.
+     */
+    position: PositionTerm | None;
+
+    /** 
+     * If `true`, then a numeric `character` term is a visual column instead of a character number. 
+     * Visual columns are what the editor shows in its status bar, where each tab counts as however 
+     * many columns it takes up (up to the next tab stop) instead of as one character.
+     */
+    visualColumn: boolean;
+
 }
 
-/** Type to represent a null case for line or character terms. */
+/** Type to represent a null case for line, character or position terms. */
 interface None {
     kind: 'none';
 }
@@ -93,16 +97,161 @@ interface NegativeRelative {
     magnitude: string;
 }
 
+/** The line and character terms whose magnitude is an expression of plain numbers. */
+type NumericTerm = Absolute | PositiveRelative | NegativeRelative;
+
+/** 
+ * A line term that is counted upwards from the last line of the document. 
+ * 
+ * For instance, a `magnitude` of `0` means the last line while `10` means ten lines above it.
+ */
+interface FromEnd {
+    kind: 'fromEnd';
+    magnitude: string;
+}
+
+/** 
+ * A line term whose magnitude is a percentage of the document's line count instead of a number of
+ * lines. 
+ * 
+ * For instance, `50%` is the line halfway through the document while `+10%` is the line that is a 
+ * tenth of the document below the reference line.
+ */
+interface Percentage {
+    kind: 'percentage';
+    term: NumericTerm | FromEnd;
+}
+
+/** 
+ * A line term that is the first line after the reference line matching `pattern` (or before, if 
+ * `direction` is `backward`). 
+ * 
+ * Same as Vim's `/` and `?`, the search wraps around the document, with the reference line itself 
+ * searched last. Unless a character term is also given, the character of the coordinate is the 
+ * column of the match.
+ */
+interface Search {
+    kind: 'search';
+    direction: 'forward' | 'backward';
+    pattern: string;
+}
+
+/** 
+ * A line term that is the top, middle or bottom line of the lines visible in the editor, or a line
+ * that is `offset` from it.
+ */
+interface Viewport {
+    kind: 'viewport';
+    edge: 'top' | 'middle' | 'bottom';
+    offset: PositiveRelative | NegativeRelative | None;
+}
+
+/** 
+ * A line term that is the `count`th paragraph boundary after the reference line (or before, if 
+ * `direction` is `backward`), same as Vim's `}` and `{`.
+ * 
+ * A paragraph boundary is a blank line (one that is empty or only has whitespace) that is next to a
+ * line that is not blank. If there are fewer than `count` boundaries in that direction, then the 
+ * term is the last (or first) line of the document.
+ * 
+ * The count is the magnitude of the number typed before the term (if any), so `-3}` and `3}` mean 
+ * the same.
+ */
+export interface Paragraph {
+    kind: 'paragraph';
+    direction: 'forward' | 'backward';
+    /** Expression for the number of boundaries to move past, which is `1` if no number was typed. */
+    count: string;
+}
+
+/** 
+ * A line term that is the first (or last, if `edge` is `end`) line of the indentation block that the
+ * reference line is in. 
+ * 
+ * The indentation block of a line is the lines around it that are indented at least as much as it 
+ * is. Blank lines (ones that are empty or only have whitespace) do not end a block, but a block does
+ * not start or end with one either. A `count` of more than `1` goes out that many blocks, to the block
+ * of the line that the previous block is nested under (such as the `if` line of a block in Python).
+ * 
+ * The count is the magnitude of the number typed before the term (if any), same as a paragraph term.
+ */
+export interface IndentationBlock {
+    kind: 'indentationBlock';
+    edge: 'start' | 'end';
+    /** Expression for the number of blocks to go out, which is `1` if no number was typed. */
+    count: string;
+}
+
 /** 
  * Variant type to represent the `line` component of an input coordinate,
  * 
  * - `absolute` means an exact line number in the editor.
  * - `positiveRelative` means a line number that is relative in the positive direction (downwards).
  * - `negativeRelative` means a line number that is relative (in the negative direction (upwards).
+ * - `fromEnd` means a line number that is relative to the last line of the document (upwards).
+ * - `percentage` means any of the above but with a magnitude that is a percentage of the document's
+ *   line count.
+ * - `search` means the next (or previous) line that matches a regular expression.
+ * - `viewport` means a line number that is relative to the lines visible in the editor.
+ * - `paragraph` means the next (or previous) blank line that separates paragraphs.
+ * - `indentationBlock` means the first (or last) line of the indentation block of the reference line.
  */
-type LineTerm = Absolute | PositiveRelative | NegativeRelative;
+type LineTerm = NumericTerm | FromEnd | Percentage | Search | Viewport | Paragraph | IndentationBlock;
 
 
+interface CharacterOffset {
+    kind: 'characterOffset';
+    magnitude: string;
+}
+
+interface ByteOffset {
+    kind: 'byteOffset';
+    magnitude: string;
+}
+
+/** A position that was previously recorded under `name` via the 'Set Mark' command. */
+interface Mark {
+    kind: 'mark';
+    name: string;
+}
+
+/** 
+ * The position of a symbol (such as a function or class) named `name`, as provided by the 
+ * document's symbol provider. 
+ * 
+ * If `offset` is not of `none` kind, then the position is instead on a line that is relative to the
+ * symbol's line, with the character term defaulted the same as an omitted character term.
+ */
+interface DocumentSymbolTerm {
+    kind: 'symbol';
+    name: string;
+    offset: PositiveRelative | NegativeRelative | None;
+}
+
+/** 
+ * The position of the bracket that is paired with the bracket at the reference position (or the 
+ * first bracket after it on the same line). If there is no such bracket, it is the reference position.
+ */
+interface MatchingBracket {
+    kind: 'matchingBracket';
+}
+
+/** The position terms that are offsets from the start of the document. */
+type OffsetTerm = CharacterOffset | ByteOffset;
+
+/** 
+ * Variant type to represent the `position` component of an input coordinate,
+ * 
+ * - `characterOffset` means an offset counted in characters, the same as `TextDocument.positionAt`.
+ * - `byteOffset` means an offset counted in bytes of the document's UTF-8 encoding. 
+ * - `mark` means the position of a mark that was set in the document.
+ * - `symbol` means the position of a symbol in the document.
+ * - `matchingBracket` means the position of the bracket that matches the one at the reference position.
+ * 
+ * Whether an offset of `0` is the first character of the document is decided by the `offsetBase`
+ * setting. 
+ */
+type PositionTerm = OffsetTerm | Mark | DocumentSymbolTerm | MatchingBracket;
 
 // TODO: Actually we might be able to get away with using enums here instead of variants....
 
@@ -123,13 +272,34 @@ type LineTerm = Absolute | PositiveRelative | NegativeRelative;
  *   to the start of line.
  * - `startOfLineShortcut` means character number 1.
  * - `endOfLineShortcut` means one past the last character including whitespace.
+ * 
+ * And the possibility of finding a character in the line,
+ * 
+ * - `findCharacter` means an occurrence of a specific character in the line.
  */
 export type CharacterTerm = 
-    LineTerm 
+    NumericTerm 
     | FirstNonWhitespaceCharacterShortcut
     | OnePastLastNonWhitespaceCharacterShortcut
     | StartOfLineShortcut
-    | EndOfLineShortcut;
+    | EndOfLineShortcut
+    | FindCharacter;
+
+/** 
+ * A character term that is the `count`th occurrence of `character` in the line, similar to Vim's `f` 
+ * (or `t` if `till` is `true`, which means just before the occurrence instead).
+ * 
+ * Occurrences are counted from the start of the line, unless `count` is `negativeRelative` in which 
+ * case they are counted backwards from the end of the line (and `till` then means just after the 
+ * occurrence). A `count` greater than the number of occurrences means the last one. If `character` 
+ * does not occur in the line at all, the term is the same as an omitted character term.
+ */
+export interface FindCharacter {
+    kind: 'findCharacter';
+    count: NumericTerm;
+    till: boolean;
+    character: string;
+}
 
 interface StartOfLineShortcut {
     kind: 'startOfLineShortcut';
@@ -147,59 +317,8 @@ interface OnePastLastNonWhitespaceCharacterShortcut {
     kind: 'onePastLastNonWhitespaceCharacterShortcut';
 }
 
-/** The kind of selection the input describes. */
-export enum SELECTION_MODE {
-
-    /**
-     * No selection mode specified. 
-     * 
-     * This means we should interpret the input as specifying a location in the document to 'Go To'.
-     */
-    NONE,
-
-    /** Select a range defined by two input `Coordinates`. */
-    SELECT,
-
-    /** 
-     * Select a range from cursor (more specifically the primary selection's `active`) to a target 
-     * `Coordinate`. 
-     */
-    SELECT_FROM_CURSOR,
-
-    /** 
-     * Same as `SELECT` but the selection will expand to completely cover the start and end lines.
-     * 
-     * For instance, if a selection starts at line 5 character 20 and ends at line 10 character 40,
-     * it will be expanded to start from the beginning of line 5 and end at the end of line 10.
-     */
-    QUICK_SELECT,
-
-    /** 
-     * Same expansion behavior as `QUICK_SELECT` but the `anchor` of the selection will be the 
-     * primary selection's `active` before expansion.
-     */
-    QUICK_SELECT_FROM_CURSOR
-    
-}
-
-    // TODO: Fix this
-
-
-
-
-    /** Predicate function that returns true if `s` is one of the `SHORTCUT` tokens. */
-    public static isShortcut(s: string): boolean {
-        
-
-
-
-
-    }
-
-
-
 /** Convert a shortcut terminal to the corresponding `CharacterTerm` variant. */
-function shortcutTerminalToCharacterTerm(shortcutTerminal: TERMINAL): CharacterTerm {
+export function shortcutTerminalToCharacterTerm(shortcutTerminal: TERMINAL): CharacterTerm {
     switch (shortcutTerminal) {
         case TERMINAL.FIRST_NON_WHITESPACE_CHARACTER_SHORTCUT: 
             return { kind: 'firstNonWhitespaceCharacterShortcut' };
@@ -228,21 +347,43 @@ function shortcutTerminalToCharacterTerm(shortcutTerminal: TERMINAL): CharacterT
  * @param reference The reference position used to calculate relative coordinates.
  * @param lineTermDefaultsTo `coordinate.line` will default to this if it is of `none` kind.
  * @param characterTermDefaultsTo `coordinate.character` will default to this if it is of `none` kind.
+ * @param offsetBase The offset of the first character in `document` (either `0` or `1`).
+ * @param tabSize The number of columns between tab stops, used if `coordinate` is in visual columns.
+ * @param countGraphemeClusters Whether character terms count grapheme clusters instead of UTF-16 
+ *                              code units.
+ * @param marks The marks that have been set in `document`.
+ * @param symbols The position of each symbol in `document`, keyed by the name of the symbol.
+ * @param viewport The range of lines in `document` that are visible in the editor.
  * @return The `Position` within `document` that `coordinate` specified.
  */
-function coordinateToPosition(args: {
+export function coordinateToPosition(args: {
     document:                Readonly<TextDocument>,
     coordinate:              Coordinate,
     reference:               Position,
     lineTermDefaultsTo:      LineTerm,
-    characterTermDefaultsTo: CharacterTerm
+    characterTermDefaultsTo: CharacterTerm,
+    offsetBase:              number,
+    tabSize:                 number,
+    countGraphemeClusters:   boolean,
+    marks:                   ReadonlyMap<string, Position>,
+    symbols:                 ReadonlyMap<string, Position>,
+    viewport:                Range
 }): Position 
 {
-    const { document, coordinate, reference, lineTermDefaultsTo, characterTermDefaultsTo } = args;
+    const { 
+        document, coordinate, reference, lineTermDefaultsTo, characterTermDefaultsTo, offsetBase, tabSize, 
+        countGraphemeClusters, marks, symbols, viewport 
+    } = args;
+    if (coordinate.position.kind !== 'none') {
+        return positionTermToPosition(reference, document, coordinate.position);
+    }
     const lineTerm       = coordinate.line.kind      === 'none' ? lineTermDefaultsTo      : coordinate.line;
     const characterTerm  = coordinate.character.kind === 'none' ? characterTermDefaultsTo : coordinate.character;
+    if (lineTerm.kind === 'search' && coordinate.character.kind === 'none') {
+        return searchTermToMatch(reference.line, document, lineTerm);
+    }
     const lineIndex      = lineTermToIndex(reference.line, document, lineTerm);
-    const characterIndex = characterTermToIndex(reference.character, document.lineAt(lineIndex), characterTerm);
+    const characterIndex = characterTermToIndex(reference, document.lineAt(lineIndex), characterTerm, coordinate.visualColumn);
     return new Position(lineIndex, characterIndex);
 
     /** Limit `num` to within a range. Both bounds are inclusive. */
@@ -252,31 +393,274 @@ function coordinateToPosition(args: {
 
     /** Get a line index which is guaranteed to be bound within `document`. */
     function lineTermToIndex(referenceLineIndex: number, document: Readonly<TextDocument>, term: LineTerm): number {
-        const val = (() => {
+        if (term.kind === 'search') {
+            return searchTermToMatch(referenceLineIndex, document, term).line;
+        }
+        if (term.kind === 'viewport') {
+            const edgeLineIndex = viewportEdgeToIndex(term.edge);
+            return term.offset.kind === 'none' 
+                ? limit(edgeLineIndex, 0, document.lineCount - 1) 
+                : lineTermToIndex(edgeLineIndex, document, term.offset);
+        }
+        if (term.kind === 'paragraph') {
+            return paragraphBoundaryToIndex(referenceLineIndex, document, term);
+        }
+        if (term.kind === 'indentationBlock') {
+            return indentationBlockEdgeToIndex(referenceLineIndex, document, term);
+        }
+        const val = term.kind === 'percentage'
+            /* Same as Vim's `N%`, we round up so that any non-zero percentage moves at least one 
+            line. */
+            ? numericLineTermToIndex(term.term, Math.ceil(magnitudeOf(term.term) * document.lineCount / 100))
+            : numericLineTermToIndex(term, magnitudeOf(term));
+        return limit(val, 0, document.lineCount - 1);
+
+        /** Get the (unbounded) line index of a term given the already evaluated `magnitude` of it. */
+        function numericLineTermToIndex(term: NumericTerm | FromEnd, magnitude: number): number {
             switch (term.kind) {
                 case 'absolute': 
-                    return Number.parseInt(term.magnitude) - 1;
+                    return magnitude - 1;
                 case 'negativeRelative':
-                    return referenceLineIndex - Number.parseInt(term.magnitude);
+                    return referenceLineIndex - magnitude;
                 case 'positiveRelative':
-                    return referenceLineIndex + Number.parseInt(term.magnitude);
+                    return referenceLineIndex + magnitude;
+                case 'fromEnd':
+                    return document.lineCount - 1 - magnitude;
                 default:
                     throw new Error('Unreachable!');
             }
-        })();
-        return limit(val, 0, document.lineCount - 1);
+        }
     }
 
-    /** Get a character index which is guaranteed to be bound within a `targetLine`. */
-    function characterTermToIndex(referenceCharacterIndex: number, targetLine: TextLine, term: CharacterTerm): number {
+    /** 
+     * Get the line index of an edge of the `viewport`. If the viewport has an even number of lines,
+     * the middle is the upper of the two middle lines.
+     */
+    function viewportEdgeToIndex(edge: Viewport['edge']): number {
+        switch (edge) {
+            case 'top':
+                return viewport.start.line;
+            case 'middle':
+                return Math.floor((viewport.start.line + viewport.end.line) / 2);
+            case 'bottom':
+                return viewport.end.line;
+            default:
+                throw new Error('Unreachable!');
+        }
+    }
+
+    /** 
+     * Get the line index of the paragraph boundary that a paragraph term refers to. 
+     * 
+     * Same as Vim, the blank lines that the reference line is within are skipped before the lines of
+     * a paragraph are, so that a boundary is always beyond at least one line that is not blank.
+     */
+    function paragraphBoundaryToIndex(referenceLineIndex: number, document: Readonly<TextDocument>, term: Paragraph): number {
+        const step     = term.direction === 'forward' ? 1 : -1;
+        const isBlank  = (lineIndex: number) => document.lineAt(lineIndex).isEmptyOrWhitespace;
+        const isInside = (lineIndex: number) => lineIndex >= 0 && lineIndex < document.lineCount;
+        // The count should be evaluable, which should have already been checked via `isEvaluable`
+        const count    = evaluateExpression(term.count);
+        if (count === undefined) {
+            throw new Error('Unreachable!');
+        }
+        let lineIndex = referenceLineIndex;
+        for (let i = 0; i < Math.max(count, 1); ++i) {
+            while (isInside(lineIndex) && isBlank(lineIndex)) {
+                lineIndex += step;
+            }
+            while (isInside(lineIndex) && !isBlank(lineIndex)) {
+                lineIndex += step;
+            }
+            if (!isInside(lineIndex)) {
+                return step > 0 ? document.lineCount - 1 : 0;
+            }
+        }
+        return lineIndex;
+    }
+
+    /** Get the line index of the edge of the indentation block that an indentation block term refers to. */
+    function indentationBlockEdgeToIndex(referenceLineIndex: number, document: Readonly<TextDocument>, term: IndentationBlock): number {
+        const isBlank = (lineIndex: number) => document.lineAt(lineIndex).isEmptyOrWhitespace;
+        // The count should be evaluable, which should have already been checked via `isEvaluable`
+        const count   = evaluateExpression(term.count);
+        if (count === undefined) {
+            throw new Error('Unreachable!');
+        }
+        let [ start, end ] = blockOf(referenceLineIndex);
+        for (let i = 1; i < count; ++i) {
+            // The block is nested under the closest line above it that is not blank
+            let header = start - 1;
+            while (header >= 0 && isBlank(header)) {
+                --header;
+            }
+            if (header < 0) {
+                break;
+            }
+            [ start, end ] = blockOf(header);
+        }
+        return term.edge === 'start' ? start : end;
+
+        /** 
+         * Get the first and last line indices of the indentation block of a line. A blank line has the 
+         * indentation of the closest line below it that is not blank (or above, if there is none).
+         */
+        function blockOf(lineIndex: number): [number, number] {
+            const indented = [ ...range(lineIndex, document.lineCount), ...range(lineIndex - 1, -1) ]
+                .find(i => !isBlank(i));
+            if (indented === undefined) {
+                return [ 0, document.lineCount - 1 ];
+            }
+            const indentation = indentationOf(indented);
+            let start = lineIndex;
+            let end   = lineIndex;
+            while (start > 0 && (isBlank(start - 1) || indentationOf(start - 1) >= indentation)) {
+                --start;
+            }
+            while (end < document.lineCount - 1 && (isBlank(end + 1) || indentationOf(end + 1) >= indentation)) {
+                ++end;
+            }
+            while (isBlank(start) && start < indented) {
+                ++start;
+            }
+            while (isBlank(end) && end > indented) {
+                --end;
+            }
+            return [ start, end ];
+        }
+
+        /** Get the indentation of a line in visual columns, so that tabs and spaces can be compared. */
+        function indentationOf(lineIndex: number): number {
+            const text = document.lineAt(lineIndex).text;
+            return characterIndexToVisualColumn(text, getFirstNonWhitespaceCharacterIndex(text, text.length), tabSize, false);
+        }
+
+        /** Get the integers from `from` (inclusive) towards `to` (exclusive), in either direction. */
+        function range(from: number, to: number): number[] {
+            const step = to >= from ? 1 : -1;
+            const integers: number[] = [];
+            for (let i = from; i !== to; i += step) {
+                integers.push(i);
+            }
+            return integers;
+        }
+    }
+
+    /** Get the position of the match that a search term refers to. */
+    function searchTermToMatch(referenceLineIndex: number, document: Readonly<TextDocument>, term: Search): Position {
+        // There should be a match, which should have already been checked via `isEvaluable`
+        const match = findMatch(document, referenceLineIndex, term);
+        if (!match) {
+            throw new Error('Unreachable!');
+        }
+        return match;
+    }
+
+    /** Get a position which is guaranteed to be bound within `document`. */
+    function positionTermToPosition(reference: Position, document: Readonly<TextDocument>, term: PositionTerm): Position {
+        switch (term.kind) {
+            case 'characterOffset':
+            case 'byteOffset':
+                return document.positionAt(offsetTermToCharacterOffset(document, term));
+            case 'mark': {
+                // The mark should exist, which should have already been checked via `isEvaluable`
+                const mark = marks.get(term.name);
+                if (!mark) {
+                    throw new Error('Unreachable!');
+                }
+                return document.validatePosition(mark);
+            }
+            case 'symbol': {
+                // The symbol should exist, which should have already been checked via `isEvaluable`
+                const symbol = symbols.get(term.name);
+                if (!symbol) {
+                    throw new Error('Unreachable!');
+                }
+                if (term.offset.kind === 'none') {
+                    return document.validatePosition(symbol);
+                }
+                const lineIndex = lineTermToIndex(symbol.line, document, term.offset);
+                return new Position(
+                    lineIndex, 
+                    characterTermToIndex(symbol, document.lineAt(lineIndex), characterTermDefaultsTo, false)
+                );
+            }
+            case 'matchingBracket': {
+                const match = findMatchingBracket(document, document.offsetAt(reference));
+                return match === undefined ? document.validatePosition(reference) : document.positionAt(match);
+            }
+            default:
+                throw new Error('Unreachable!');
+        }
+    }
+
+    /** Get a 0-based character offset which is guaranteed to be bound within `document`. */
+    function offsetTermToCharacterOffset(document: Readonly<TextDocument>, term: OffsetTerm): number {
+        const text = document.getText();
+        const val  = evaluateExpression(term.magnitude);
+        if (val === undefined) {
+            throw new Error('Unreachable!');
+        }
+        switch (term.kind) {
+            case 'characterOffset':
+                return limit(val - offsetBase, 0, text.length);
+            case 'byteOffset':
+                return byteOffsetToCharacterOffset(text, Math.max(val - offsetBase, 0));
+            default:
+                throw new Error('Unreachable!');
+        }
+
+        /** 
+         * Convert an offset into the UTF-8 encoding of `str` to an offset into `str` itself. 
+         * 
+         * If `byteOffset` lands in the middle of the encoding of a code point, the offset of that 
+         * code point is returned. If it is past the end, the length of `str` is returned.
+         */
+        function byteOffsetToCharacterOffset(str: string, byteOffset: number): number {
+            let bytes = 0;
+            let i     = 0;
+            while (i < str.length) {
+                const codePoint = str.codePointAt(i) as number;
+                bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+                if (bytes > byteOffset) {
+                    break;
+                }
+                // Code points outside the Basic Multilingual Plane take up two UTF-16 code units
+                i += codePoint < 0x10000 ? 1 : 2;
+            }
+            return i;
+        }
+    }
+
+    /** 
+     * Get a character index which is guaranteed to be bound within a `targetLine`. 
+     * 
+     * If `visualColumn` is `true`, then a numeric `term` is calculated in visual columns (relative to
+     * the visual column of `reference`) before being converted to a character index.
+     */
+    function characterTermToIndex(reference: Position, targetLine: TextLine, term: CharacterTerm, visualColumn: boolean): number {
         const val = (() => {
             switch (term.kind) {
-                case 'absolute': 
-                    return Number.parseInt(term.magnitude) - 1;
+                case 'absolute':
                 case 'negativeRelative':
-                    return referenceCharacterIndex - Number.parseInt(term.magnitude);
-                case 'positiveRelative':
-                    return referenceCharacterIndex + Number.parseInt(term.magnitude);
+                case 'positiveRelative': {
+                    const referenceText = document.lineAt(reference.line).text;
+                    if (visualColumn) {
+                        const referenceColumn = characterIndexToVisualColumn(
+                            referenceText, reference.character, tabSize, countGraphemeClusters
+                        );
+                        return visualColumnToCharacterIndex(
+                            targetLine.text, numericCharacterTermToIndex(term, referenceColumn), tabSize, countGraphemeClusters
+                        );
+                    }
+                    if (countGraphemeClusters) {
+                        const referenceGraphemeIndex = characterIndexToGraphemeIndex(referenceText, reference.character);
+                        return graphemeIndexToCharacterIndex(
+                            targetLine.text, numericCharacterTermToIndex(term, referenceGraphemeIndex)
+                        );
+                    }
+                    return numericCharacterTermToIndex(term, reference.character);
+                }
                 case 'firstNonWhitespaceCharacterShortcut':
                     return getFirstNonWhitespaceCharacterIndex(targetLine.text, 0);
                 case 'onePastLastNonWhitespaceCharacterShortcut':
@@ -285,6 +669,12 @@ function coordinateToPosition(args: {
                     return 0;
                 case 'endOfLineShortcut':
                     return targetLine.range.end.character;
+                case 'findCharacter': {
+                    const index = findCharacterIndex(targetLine.text, term);
+                    return index !== undefined 
+                        ? index 
+                        : characterTermToIndex(reference, targetLine, characterTermDefaultsTo, false);
+                }
                 default:
                     throw new Error('Unreachable!');
             }
@@ -292,115 +682,225 @@ function coordinateToPosition(args: {
         return limit(val, 0, targetLine.range.end.character);
 
         /** 
-         * Get the first non-whitespace character index of a string. `defaultTo` is returned if the 
-         * string is all whitespace.
+         * Get the (unbounded) index of a numeric term, where the index is either a character index
+         * or a visual column depending on what `referenceIndex` is. 
          */
-        function getFirstNonWhitespaceCharacterIndex(str: string, defaultTo: number): number {
-            for (let i = 0; i < str.length; ++i) {
-                if (!/\s/.exec(str[i])) {
-                    return i;
-                }
+        function numericCharacterTermToIndex(term: NumericTerm, referenceIndex: number): number {
+            switch (term.kind) {
+                case 'absolute': 
+                    return magnitudeOf(term) - 1;
+                case 'negativeRelative':
+                    return referenceIndex - magnitudeOf(term);
+                case 'positiveRelative':
+                    return referenceIndex + magnitudeOf(term);
+                default:
+                    throw new Error('Unreachable!');
             }
-            return defaultTo;
         }
 
         /** 
-         * Get one past the last non-whitespace character index of a string. `defaultTo` is returned 
-         * if the string is all whitespace.
+         * Get the character index in `str` that a find character term refers to. `undefined` is 
+         * returned if the character to find does not occur in the string.
          */
-        function getOnePastLastNonWhitespaceCharacterIndex(str: string, defaultTo: number): number {
-            for (let i = str.length - 1; i >= 0; --i) {
-                if (!/\s/.exec(str[i])) {
-                    return i + 1;
+        function findCharacterIndex(str: string, term: FindCharacter): number | undefined {
+            const occurrences: number[] = [];
+            for (let i = str.indexOf(term.character); i !== -1; i = str.indexOf(term.character, i + 1)) {
+                occurrences.push(i);
+            }
+            if (occurrences.length === 0) {
+                return undefined;
+            }
+            const count = limit(magnitudeOf(term.count), 1, occurrences.length);
+            if (term.count.kind === 'negativeRelative') {
+                const index = occurrences[occurrences.length - count];
+                if (!term.till) {
+                    return index;
                 }
+                return countGraphemeClusters ? nextGraphemeClusterIndex(str, index) : index + term.character.length;
+            } 
+            const index = occurrences[count - 1];
+            if (!term.till) {
+                return index;
             }
-            return defaultTo;
+            return countGraphemeClusters ? previousGraphemeClusterIndex(str, index) : previousCodePointIndex(str, index);
         }
     }
 
 }
 
 /** 
- * Get a `Selection` that has:
- * - `anchor` at the start of `anchorLine`.
- * - `active` at the end of `activeLine`.
+ * Evaluate the magnitude of a term. 
+ * 
+ * The magnitude of a term is an arithmetic expression (see `evaluateExpression`). For the `-` prefixed 
+ * terms, the prefix acts as the leading operator of the expression. For example, `-5-3` means eight 
+ * lines upwards rather than two.
+ * 
+ * The magnitude must be well formed, which should have already been checked via `isEvaluable`.
  */
-function quickSelectionFrom(anchorLine: TextLine, activeLine: TextLine): Selection {
-    if (activeLine.lineNumber >= anchorLine.lineNumber) {
-        return new Selection(anchorLine.range.start, activeLine.range.end);
-    } else {
-        return new Selection(anchorLine.range.end, activeLine.range.start);
+function magnitudeOf(term: NumericTerm | FromEnd): number {
+    const value = (() => {
+        switch (term.kind) {
+            case 'absolute':
+            case 'positiveRelative':
+                return evaluateExpression(term.magnitude);
+            case 'negativeRelative':
+            case 'fromEnd': {
+                const negated = evaluateExpression(`0${TERMINAL.SUBTRACTION_OPERATOR}${term.magnitude}`);
+                return negated === undefined ? undefined : -negated;
+            }
+            default: 
+                throw new Error('Unreachable!');
+        }
+    })();
+    if (value === undefined) {
+        throw new Error('Unreachable!');
     }
+    return value;
 }
 
+/** 
+ * Get the first non-whitespace character index of a string. `defaultTo` is returned if the string is
+ * all whitespace.
+ */
+function getFirstNonWhitespaceCharacterIndex(str: string, defaultTo: number): number {
+    for (let i = 0; i < str.length; ++i) {
+        if (!/\s/.exec(str[i])) {
+            return i;
+        }
+    }
+    return defaultTo;
+}
 
+/** 
+ * Get one past the last non-whitespace character index of a string. `defaultTo` is returned if the
+ * string is all whitespace.
+ */
+function getOnePastLastNonWhitespaceCharacterIndex(str: string, defaultTo: number): number {
+    for (let i = str.length - 1; i >= 0; --i) {
+        if (!/\s/.exec(str[i])) {
+            return i + 1;
+        }
+    }
+    return defaultTo;
+}
 
-/**
- * Parse an input string to get a selection in a text editor.
+/** 
+ * Get the visual column (0-based) that the character at `characterIndex` of `text` starts at, where
+ * each tab extends to the next multiple of `tabSize` columns. 
  * 
- * @param input The input string from the dialog (all whitespace will be ignored).
- * @param editor The text editor that the dialog is opened in. 
- * @param configuration The current configuration of the extension.
- * @return `Selection` specified by the input. But `undefined` if the input is rejected. The return 
- *         `Selection` will be empty if the input specifies a 'Go To'. 
+ * Like the editor, a code point outside the Basic Multilingual Plane counts as one column even 
+ * though it takes up two UTF-16 code units. If `countGraphemeClusters` is `true`, then each grapheme 
+ * cluster counts as one column instead.
  */
-export function parseInput(
-    input:         string, 
-    editor:        Readonly<TextEditor>, 
-    configuration: Configuration
-): Selection | undefined 
-{
-    const intent = runFiniteAutomation(input);
-    if (!intent) {
-        // Rejection
+function characterIndexToVisualColumn(text: string, characterIndex: number, tabSize: number, countGraphemeClusters: boolean): number {
+    let column = 0;
+    let i      = 0;
+    while (i < Math.min(characterIndex, text.length)) {
+        column = text[i] === '\t' ? column + tabSize - column % tabSize : column + 1;
+        i      = nextCharacterIndex(text, i, countGraphemeClusters);
+    }
+    return column;
+}
+
+/** 
+ * Get the index of the character of `text` that covers the visual column `column` (0-based). That
+ * means a column in the middle of a tab gives the index of the tab. 
+ * 
+ * The length of `text` is returned if `column` is past its end.
+ */
+function visualColumnToCharacterIndex(text: string, column: number, tabSize: number, countGraphemeClusters: boolean): number {
+    let nextColumn = 0;
+    let i          = 0;
+    while (i < text.length) {
+        nextColumn = text[i] === '\t' ? nextColumn + tabSize - nextColumn % tabSize : nextColumn + 1;
+        if (nextColumn > column) {
+            break;
+        }
+        i = nextCharacterIndex(text, i, countGraphemeClusters);
+    }
+    return i;
+}
+
+/** 
+ * Get the index of the character after the one at `index` of `text`, where a character is either a
+ * grapheme cluster or a code point depending on `countGraphemeClusters`.
+ */
+function nextCharacterIndex(text: string, index: number, countGraphemeClusters: boolean): number {
+    if (countGraphemeClusters) {
+        return nextGraphemeClusterIndex(text, index);
+    }
+    return index + ((text.codePointAt(index) as number) < 0x10000 ? 1 : 2);
+}
+
+/** 
+ * Find the first match of the pattern of a search term, starting from the line after (or before) 
+ * `referenceLineIndex` and wrapping around `document`.
+ * 
+ * Each line is matched separately, so a pattern cannot match across lines.
+ * 
+ * @return The start of the match, or `undefined` if the pattern is empty, is not a valid regular 
+ *         expression or does not match anywhere in `document`.
+ */
+function findMatch(document: Readonly<TextDocument>, referenceLineIndex: number, term: Search): Position | undefined {
+    if (term.pattern === '') {
         return undefined;
     }
-    const anchor = coordinateToPosition({
-        document:                editor.document,
-        coordinate:              intent.anchor,
-        /* Intuitively the user expects the relative position of the anchor to be calculated with
-        respect to the cursor's position when the dialog is first opened.*/
-        reference:               editor.selection.active,
-        // If the line term is omitted, we default to using the cursor's line number
-        lineTermDefaultsTo:      { kind: 'positiveRelative', magnitude: '0' },
-        characterTermDefaultsTo: configuration.defaultCharacterBehavior
-    });
-    const getActive = () => coordinateToPosition({
-        document:                editor.document,
-        coordinate:              intent.active,
-        reference:               configuration.activeRelativeTo === ACTIVE_RELATIVE_TO.ANCHOR ? anchor : editor.selection.active,
-        // Default to the `reference`'s line number if line term is omitted
-        lineTermDefaultsTo:      { kind: 'positiveRelative', magnitude: '0' },
-        characterTermDefaultsTo: configuration.defaultCharacterBehavior,
-    });
-    switch (intent.selectionMode) {
-        case SELECTION_MODE.GOTO:
-            return new Selection(
-                anchor, 
-                anchor
-            );
-        case SELECTION_MODE.SELECT: 
-            return new Selection(
-                anchor, 
-                getActive()
-            );
-        case SELECTION_MODE.SELECT_FROM_CURSOR:
-            return new Selection(
-                editor.selection.active, 
-                getActive()
-            );
-        case SELECTION_MODE.QUICK_SELECT:
-            return quickSelectionFrom(
-                editor.document.lineAt(anchor),
-                editor.document.lineAt(getActive())
-            );
-        case SELECTION_MODE.QUICK_SELECT_FROM_CURSOR:
-            return quickSelectionFrom(
-                editor.document.lineAt(editor.selection.active),
-                editor.document.lineAt(getActive())
-            );
-        default: 
-            throw new Error('Unreachable!');
+    let regExp: RegExp;
+    try {
+        regExp = new RegExp(term.pattern);
+    } catch {
+        return undefined;
     }
+    const step = term.direction === 'forward' ? 1 : -1;
+    for (let i = 1; i <= document.lineCount; ++i) {
+        const lineIndex = ((referenceLineIndex + step * i) % document.lineCount + document.lineCount) % document.lineCount;
+        const match     = regExp.exec(document.lineAt(lineIndex).text);
+        if (match) {
+            return new Position(lineIndex, match.index);
+        }
+    }
+    return undefined;
 }
 
+/** 
+ * Check that the magnitudes of all the terms in a `Coordinate` are well formed expressions, that 
+ * any mark or symbol it refers to exists in `marks` or `symbols` respectively, and that any pattern
+ * it searches for matches somewhere in `document`.
+ * 
+ * The finite automation cannot check for balanced parentheses, so an input that it accepts might 
+ * still have to be rejected here.
+ */
+export function isEvaluable(
+    coordinate: Coordinate, 
+    document:   Readonly<TextDocument>,
+    marks:      ReadonlyMap<string, Position>, 
+    symbols:    ReadonlyMap<string, Position>
+): boolean {
+    return [coordinate.line, coordinate.character, coordinate.position].every(term => {
+        switch (term.kind) {
+            case 'absolute':
+            case 'positiveRelative':
+            case 'negativeRelative':
+            case 'fromEnd':
+            case 'characterOffset':
+            case 'byteOffset':
+                return evaluateExpression(term.magnitude) !== undefined;
+            case 'percentage':
+                return evaluateExpression(term.term.magnitude) !== undefined;
+            case 'findCharacter':
+                return evaluateExpression(term.count.magnitude) !== undefined;
+            case 'paragraph':
+            case 'indentationBlock':
+                return evaluateExpression(term.count) !== undefined;
+            case 'mark':
+                return marks.has(term.name);
+            case 'symbol':
+                return symbols.has(term.name);
+            case 'search':
+                // Since the search wraps around, whether there is a match does not depend on where it starts
+                return findMatch(document, 0, term) !== undefined;
+            default:
+                return true;
+        }
+    });
+}
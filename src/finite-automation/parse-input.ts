@@ -1,12 +1,328 @@
-import { Position, TextEditor, Selection, TextLine, TextDocument } from 'vscode';
-import { FiniteAutomation } from './finite-automation';
-import { Intent } from './intent';
-import { LineTerm } from './intent/coordinate/terms/line-term';
-import { CharacterTerm } from './intent/coordinate/terms/character-term';
-import { Coordinate } from './intent/coordinate/coordinate';
-import { Configuration } from '../configuration';
+import { Position, Range, Selection, TextEditor, TextLine } from 'vscode';
+import { IncrementalFiniteAutomation } from './finite-automation';
+import { Intent, Coordinate, coordinateToPosition, isEvaluable, shortcutTerminalToCharacterTerm } from './intent';
 import { SELECTION_MODE } from './selection-mode';
-import { ACTIVE_RELATIVE_TO } from '../configuration/active-relative-to';
+import { Configuration } from '../configuration';
+import { characterIndexToGraphemeIndex, graphemeIndexToCharacterIndex } from '../grapheme-clusters';
+import { findEnclosingPair } from '../brackets';
+
+/** 
+ * Get a `Selection` that has:
+ * - `anchor` at the start of `anchorLine`.
+ * - `active` at the end of `activeLine`.
+ */
+function quickSelectionFrom(anchorLine: TextLine, activeLine: TextLine): Selection {
+    if (activeLine.lineNumber >= anchorLine.lineNumber) {
+        return new Selection(anchorLine.range.start, activeLine.range.end);
+    } else {
+        return new Selection(anchorLine.range.end, activeLine.range.start);
+    }
+}
+
+/**
+ * Parse an input string to get the selections in a text editor.
+ * 
+ * @param input The input string from the dialog (all whitespace will be ignored, except within 
+ *              patterns and as the character of a find character term).
+ * @param editor The text editor that the dialog is opened in. 
+ * @param configuration The current configuration of the extension.
+ * @param marks The marks that have been set in the document of `editor`.
+ * @param symbols The position of each symbol in the document of `editor`, keyed by the name of the 
+ *                symbol.
+ * @param viewport The range of lines that were visible in `editor` when the dialog was opened. This
+ *                 is not read from `editor` since revealing the targets scrolls the editor.
+ * @param finiteAutomation The finite automation to run the input through. The same one should be 
+ *                         given for each keystroke, so that only the changed part of the input has
+ *                         to be read. It must use the terminals of `configuration`.
+ * @return One `Selection` per target specified by the input, in the order that they were specified. 
+ *         But `undefined` if the input is rejected, or if one of its targets cannot be found (such as 
+ *         an enclosing pair without any brackets around). Each `Selection` will be empty if its target 
+ *         specifies a 'Go To'. A target that is resolved per cursor has one `Selection` per cursor 
+ *         instead, starting with the primary cursor, except that a `Selection` which a previous cursor 
+ *         already resolved the target to is left out.
+ */
+export function parseInput(
+    input:             string, 
+    editor:            Readonly<TextEditor>, 
+    configuration:     Configuration,
+    marks:             ReadonlyMap<string, Position>,
+    symbols:           ReadonlyMap<string, Position>,
+    viewport:          Range,
+    finiteAutomation?: IncrementalFiniteAutomation
+): Selection[] | undefined 
+{
+    if (!configuration.syntax.ok) {
+        return undefined;
+    }
+    if (!finiteAutomation) {
+        finiteAutomation = new IncrementalFiniteAutomation(configuration.syntax.terminals);
+    }
+    const intents = finiteAutomation.run(input);
+    if (!intents || !intents.every(intent => 
+        isEvaluable(intent.anchor, editor.document, marks, symbols) 
+        && isEvaluable(intent.active, editor.document, marks, symbols)
+        // A step of zero would never get from one end of the range to the other
+        && (intent.step === '' || Number.parseInt(intent.step) > 0)
+        // A count of zero would target nothing
+        && (intent.count === '' || Number.parseInt(intent.count) > 0)
+    )) {
+        // Rejection
+        return undefined;
+    }
+    if (configuration.visualColumns) {
+        for (const intent of intents) {
+            intent.anchor.visualColumn = true;
+            intent.active.visualColumn = true;
+        }
+    }
+    const selections: Selection[] = [];
+    for (const intent of intents) {
+        // A target is only resolved against the primary cursor, unless it is resolved per cursor
+        const cursors = intent.perCursor || configuration.perCursor ? editor.selections : [ editor.selection ];
+        const targetSelections: Selection[] = [];
+        for (const cursor of cursors) {
+            const fromCursor = intentToSelections(intent, cursor, editor, configuration, marks, symbols, viewport);
+            if (!fromCursor) {
+                return undefined;
+            }
+            // A cursor can resolve to the same selection as a previous one, such as when the target
+            // is absolute
+            targetSelections.push(...fromCursor.filter(
+                selection => !targetSelections.some(previous => isSameSelection(previous, selection))
+            ));
+        }
+        selections.push(...targetSelections);
+    }
+    return selections;
+}
+
+/** Whether `a` and `b` have the same anchor and the same active. */
+function isSameSelection(a: Selection, b: Selection): boolean {
+    return a.anchor.isEqual(b.anchor) && a.active.isEqual(b.active);
+}
+
+/**
+ * Get the `Selection`s that a single target of the input specifies for one of the cursors. 
+ * 
+ * Only a block selection or a stepped range results in more than one `Selection` (one per line in 
+ * the block or one per step of the range).
+ * 
+ * Every target is calculated independently of the other targets. That means relative terms are 
+ * always calculated with respect to `cursor` (as it was when the dialog is first opened), and not
+ * the previous target.
+ * 
+ * @return The `Selection`s, or `undefined` if the target cannot be found from `cursor` (which only
+ *         happens when there is no enclosing pair of brackets).
+ */
+function intentToSelections(
+    intent:        Intent, 
+    cursor:        Selection,
+    editor:        Readonly<TextEditor>, 
+    configuration: Configuration,
+    marks:         ReadonlyMap<string, Position>,
+    symbols:       ReadonlyMap<string, Position>,
+    viewport:      Range
+): Selection[] | undefined
+{
+    // The tab size in the options of an editor is always a number when it is read
+    const tabSize   = editor.options.tabSize as number;
+    const defaultCharacterTerm = shortcutTerminalToCharacterTerm(configuration.defaultCharacterBehavior);
+    const getAnchor = (coordinate: Coordinate = intent.anchor) => coordinateToPosition({
+        document:                editor.document,
+        coordinate,
+        /* Intuitively the user expects the relative position of the anchor to be calculated with
+        respect to the cursor's position when the dialog is first opened.*/
+        reference:               cursor.active,
+        // If the line term is omitted, we default to using the cursor's line number
+        lineTermDefaultsTo:      { kind: 'positiveRelative', magnitude: '0' },
+        characterTermDefaultsTo: defaultCharacterTerm,
+        offsetBase:              configuration.offsetBase,
+        tabSize,
+        countGraphemeClusters:   configuration.countGraphemeClusters,
+        marks,
+        symbols,
+        viewport
+    });
+    const anchor = getAnchor();
+    /* Like the anchor, the active is relative to the cursor. Except when only the anchor end of the 
+    existing selection is adjusted, in which case the target is relative to the end that it replaces. */
+    const activeReference = intent.selectionMode === SELECTION_MODE.ADJUST_ANCHOR ? cursor.anchor : cursor.active;
+    const getActive = (coordinate: Coordinate = intent.active) => coordinateToPosition({
+        document:                editor.document,
+        coordinate,
+        reference:               activeReference,
+        // Default to the `reference`'s line number if line term is omitted
+        lineTermDefaultsTo:      { kind: 'positiveRelative', magnitude: '0' },
+        characterTermDefaultsTo: defaultCharacterTerm,
+        offsetBase:              configuration.offsetBase,
+        tabSize,
+        countGraphemeClusters:   configuration.countGraphemeClusters,
+        marks,
+        symbols,
+        viewport
+    });
+    /* The character terms are calculated separately for each line in a block or stepped range, so 
+    that shortcuts like `h` still mean the first non-whitespace character of each line. A position 
+    term (or a search term without a character term) however only contributes the character number
+    of the corner it specifies. */
+    const onLine = (coordinate: Coordinate, corner: Position, line: number): Coordinate => {
+        const isCornerCharacter = coordinate.position.kind !== 'none' 
+            || (coordinate.line.kind === 'search' && coordinate.character.kind === 'none');
+        // The character number of the corner has to be counted the same way that the term will be
+        const cornerCharacter = configuration.countGraphemeClusters
+            ? characterIndexToGraphemeIndex(editor.document.lineAt(corner.line).text, corner.character)
+            : corner.character;
+        return {
+            line:         { kind: 'absolute', magnitude: `${line + 1}` },
+            character:    isCornerCharacter 
+                ? { kind: 'absolute', magnitude: `${cornerCharacter + 1}` } 
+                : coordinate.character,
+            position:     { kind: 'none' },
+            visualColumn: isCornerCharacter ? false : coordinate.visualColumn
+        };
+    };
+    if (intent.step !== '' && intent.selectionMode !== SELECTION_MODE.BLOCK_SELECT) {
+        return steppedRangeToSelections();
+    }
+    switch (intent.selectionMode) {
+        case SELECTION_MODE.GOTO:
+            return [new Selection(
+                anchor, 
+                anchor
+            )];
+        case SELECTION_MODE.SELECT: 
+            return [new Selection(
+                anchor, 
+                getActive()
+            )];
+        case SELECTION_MODE.SELECT_FROM_CURSOR:
+            return [new Selection(
+                cursor.active, 
+                getActive()
+            )];
+        case SELECTION_MODE.QUICK_SELECT:
+            return [quickSelectionFrom(
+                editor.document.lineAt(anchor),
+                editor.document.lineAt(getActive())
+            )];
+        case SELECTION_MODE.QUICK_SELECT_FROM_CURSOR:
+            return [quickSelectionFrom(
+                editor.document.lineAt(cursor.active),
+                editor.document.lineAt(getActive())
+            )];
+        case SELECTION_MODE.ADJUST_ACTIVE:
+            return [new Selection(
+                cursor.anchor, 
+                getActive()
+            )];
+        case SELECTION_MODE.ADJUST_ANCHOR:
+            return [new Selection(
+                getActive(), 
+                cursor.active
+            )];
+        case SELECTION_MODE.ENCLOSING_PAIR: {
+            // Without a coordinate, the pair is the one around the cursor itself
+            const isAroundCursor = [ intent.anchor.line, intent.anchor.character, intent.anchor.position ]
+                .every(term => term.kind === 'none');
+            const position = isAroundCursor ? cursor.active : anchor;
+            const pair     = findEnclosingPair(editor.document, editor.document.offsetAt(position));
+            if (!pair) {
+                return undefined;
+            }
+            return [new Selection(
+                editor.document.positionAt(pair.open + 1),
+                editor.document.positionAt(pair.close)
+            )];
+        }
+        case SELECTION_MODE.LINE_COUNT: {
+            // The line of the anchor is the first of the counted lines
+            const lastLine = Math.min(anchor.line + Number.parseInt(intent.count) - 1, editor.document.lineCount - 1);
+            return [quickSelectionFrom(
+                editor.document.lineAt(anchor),
+                editor.document.lineAt(lastLine)
+            )];
+        }
+        case SELECTION_MODE.CHARACTER_COUNT: {
+            // The characters are counted the same as a character offset, so each line break counts
+            const start  = editor.document.offsetAt(anchor);
+            const count  = Number.parseInt(intent.count);
+            const offset = configuration.countGraphemeClusters
+                ? start + graphemeIndexToCharacterIndex(editor.document.getText().slice(start), count)
+                : start + count;
+            return [new Selection(
+                anchor, 
+                editor.document.positionAt(offset)
+            )];
+        }
+        case SELECTION_MODE.BLOCK_SELECT: {
+            const active = getActive();
+            return steppedLines(anchor.line, active.line, intent.step).map(line => new Selection(
+                getAnchor(onLine(intent.anchor, anchor, line)),
+                getActive(onLine(intent.active, active, line))
+            ));
+        }
+        default: 
+            throw new Error('Unreachable!');
+    }
+
+    /**
+     * A stepped range targets every Nth line from the start of the range to its end. Each line gets 
+     * a cursor, or a whole line selection if the range is a quick selection.
+     * 
+     * The character term that follows the step applies to every targeted line. Without one, the 
+     * character term of the anchor is used instead (which is left unspecified when selecting from 
+     * the cursor, so the default character behavior applies). When one end of the existing selection
+     * is adjusted, the range is from the end that is kept to the target.
+     */
+    function steppedRangeToSelections(): Selection[] {
+        const start = (() => {
+            switch (intent.selectionMode) {
+                case SELECTION_MODE.SELECT_FROM_CURSOR:
+                case SELECTION_MODE.QUICK_SELECT_FROM_CURSOR:
+                case SELECTION_MODE.ADJUST_ANCHOR:
+                    return cursor.active;
+                case SELECTION_MODE.ADJUST_ACTIVE:
+                    return cursor.anchor;
+                default:
+                    return anchor;
+            }
+        })();
+        const lines = steppedLines(start.line, getActive().line, intent.step);
+        switch (intent.selectionMode) {
+            case SELECTION_MODE.SELECT:
+            case SELECTION_MODE.SELECT_FROM_CURSOR:
+            case SELECTION_MODE.ADJUST_ACTIVE:
+            case SELECTION_MODE.ADJUST_ANCHOR:
+                return lines.map(line => {
+                    const position = intent.active.character.kind !== 'none'
+                        ? getActive(onLine(intent.active, start, line))
+                        : getAnchor(onLine(intent.anchor, start, line));
+                    return new Selection(position, position);
+                });
+            case SELECTION_MODE.QUICK_SELECT:
+            case SELECTION_MODE.QUICK_SELECT_FROM_CURSOR:
+                return lines.map(line => quickSelectionFrom(
+                    editor.document.lineAt(line), 
+                    editor.document.lineAt(line)
+                ));
+            default: 
+                throw new Error('Unreachable!');
+        }
+    }
+}
 
-// TODO: Move most of the conversion methods to `intent.ts`
+/**
+ * Get the line numbers from `start` to `end` (both inclusive, in either direction) that are `step` 
+ * lines apart. `end` is only included if it is a whole number of steps away from `start`.
+ * 
+ * Every line number is included if `step` is empty.
+ */
+function steppedLines(start: number, end: number, step: string): number[] {
+    const increment = (step === '' ? 1 : Number.parseInt(step)) * (end >= start ? 1 : -1);
+    const lines: number[] = [];
+    for (let line = start; increment > 0 ? line <= end : line >= end; line += increment) {
+        lines.push(line);
+    }
+    return lines;
+}
 
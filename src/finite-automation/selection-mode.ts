@@ -2,10 +2,10 @@
 export enum SELECTION_MODE {
 
     /** 
-     * Since no selection mode is explicitly asked for, this is equivalent to a 'Go To'. This means
-     * we should interpret the entire input as specifying a single location in the document.
+     * Since no selection mode is explicitly asked for, this is a 'Go To'. This means we should 
+     * interpret the entire input as specifying a single location in the document.
      */
-    NONE,
+    GOTO,
 
     /** Select a range defined by two input `Coordinates`. */
     SELECT,
@@ -28,6 +28,42 @@ export enum SELECTION_MODE {
      * Same expansion behavior as `QUICK_SELECT` but the `anchor` of the selection will be the 
      * primary selection's `active` before expansion.
      */
-    QUICK_SELECT_FROM_CURSOR
+    QUICK_SELECT_FROM_CURSOR,
+
+    /** 
+     * Select a rectangular block with the two input `Coordinates` at opposite corners. 
+     * 
+     * This results in one selection per line. For instance, a block from line 10 character 5 to 
+     * line 20 character 15 selects characters 5 to 15 in every line from line 10 to line 20.
+     */
+    BLOCK_SELECT,
+
+    /** 
+     * Keep the `anchor` of the cursor's selection and move only its `active` to a target 
+     * `Coordinate`, which is relative to the `active` that it replaces. 
+     */
+    ADJUST_ACTIVE,
+
+    /** 
+     * Keep the `active` of the cursor's selection and move only its `anchor` to a target 
+     * `Coordinate`, which is relative to the `anchor` that it replaces. 
+     */
+    ADJUST_ANCHOR,
+
+    /** 
+     * Select the inside of the innermost pair of brackets (`()`, `[]` or `{}`) that encloses the 
+     * input `Coordinate`, excluding the brackets themselves.
+     */
+    ENCLOSING_PAIR,
+
+    /** 
+     * Select a number of whole lines, starting from the line of the input `Coordinate`. 
+     * 
+     * For instance, 15 lines from line 120 selects from the start of line 120 to the end of line 134.
+     */
+    LINE_COUNT,
+
+    /** Select a number of characters, starting from the input `Coordinate`. */
+    CHARACTER_COUNT
     
 }
\ No newline at end of file
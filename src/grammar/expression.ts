@@ -0,0 +1,66 @@
+import { TERMINAL } from './terminal';
+
+/**
+ * Evaluate an integer arithmetic expression that was read in as the magnitude of a term.
+ *
+ * The finite automation only checks that operators and operands alternate correctly, since it is
+ * unable to keep count of nested parentheses. The rest of the sub-grammar is checked here:
+ *
+ * - <SUM>     -> <PRODUCT> | <SUM><ADDITION_OPERATOR><PRODUCT> | <SUM><SUBTRACTION_OPERATOR><PRODUCT>
+ * - <PRODUCT> -> <FACTOR> | <PRODUCT><MULTIPLICATION_OPERATOR><FACTOR>
+ * - <FACTOR>  -> <MAGNITUDE> | <OPEN_PARENTHESIS><SUM><CLOSE_PARENTHESIS>
+ *
+ * @param expression The expression to evaluate (must not contain any whitespace).
+ * @return The value of the expression. But `undefined` if the expression is malformed, for instance
+ *         when its parentheses are unbalanced.
+ */
+export function evaluateExpression(expression: string): number | undefined {
+    let i = 0;
+    const value = parseSum();
+    return i === expression.length ? value : undefined;
+
+    function parseSum(): number | undefined {
+        let value = parseProduct();
+        while (value !== undefined
+            && (expression[i] === TERMINAL.ADDITION_OPERATOR || expression[i] === TERMINAL.SUBTRACTION_OPERATOR)
+        ) {
+            const operator = expression[i++];
+            const operand  = parseProduct();
+            if (operand === undefined) {
+                return undefined;
+            }
+            value = operator === TERMINAL.ADDITION_OPERATOR ? value + operand : value - operand;
+        }
+        return value;
+    }
+
+    function parseProduct(): number | undefined {
+        let value = parseFactor();
+        while (value !== undefined && expression[i] === TERMINAL.MULTIPLICATION_OPERATOR) {
+            ++i;
+            const operand = parseFactor();
+            if (operand === undefined) {
+                return undefined;
+            }
+            value *= operand;
+        }
+        return value;
+    }
+
+    function parseFactor(): number | undefined {
+        if (expression[i] === TERMINAL.OPEN_PARENTHESIS) {
+            ++i;
+            const value = parseSum();
+            if (value === undefined || expression[i] !== TERMINAL.CLOSE_PARENTHESIS) {
+                return undefined;
+            }
+            ++i;
+            return value;
+        }
+        const start = i;
+        while (i < expression.length && /\d/.test(expression[i])) {
+            ++i;
+        }
+        return i > start ? Number.parseInt(expression.slice(start, i)) : undefined;
+    }
+}
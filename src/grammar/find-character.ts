@@ -0,0 +1,9 @@
+/** 
+ * Check if `token` can be the character that a find character term looks for. 
+ * 
+ * Any character can be looked for (including terminals such as `;`), since the character always 
+ * immediately follows a `FIND_CHARACTER_PREFIX` or `TILL_CHARACTER_PREFIX`.
+ */
+export function isCharacterToFind(_token: string): boolean {
+    return true;
+}
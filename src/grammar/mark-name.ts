@@ -0,0 +1,9 @@
+/** 
+ * Check if `token` can be the name of a mark. 
+ * 
+ * Mark names are not terminals since there are too many of them. Like Vim's marks that are local to
+ * a file, each mark is named with a single lowercase letter.
+ */
+export function isMarkName(token: string): boolean {
+    return /^[a-z]$/.test(token);
+}
@@ -0,0 +1,24 @@
+import { Terminals } from './terminal';
+
+/* 
+ * The characters of a search pattern are not terminals, since a pattern is a regular expression 
+ * that can contain any character. Only the delimiter that ends the pattern and the escape character
+ * have to be excluded, and anything can follow the escape character.
+ *
+ * The delimiters and the escape character are whatever symbols they are typed as in `terminals`.
+ */
+
+/** Check if `token` can be part of a pattern that is delimited by `SEARCH_FORWARD_DELIMITER`. */
+export function isForwardPatternCharacter(token: string, terminals: Terminals): boolean {
+    return token !== terminals.SEARCH_FORWARD_DELIMITER && token !== terminals.PATTERN_ESCAPE;
+}
+
+/** Check if `token` can be part of a pattern that is delimited by `SEARCH_BACKWARD_DELIMITER`. */
+export function isBackwardPatternCharacter(token: string, terminals: Terminals): boolean {
+    return token !== terminals.SEARCH_BACKWARD_DELIMITER && token !== terminals.PATTERN_ESCAPE;
+}
+
+/** Check if `token` can follow a `PATTERN_ESCAPE` in a pattern. */
+export function isEscapedPatternCharacter(_token: string): boolean {
+    return true;
+}
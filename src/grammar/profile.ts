@@ -0,0 +1,68 @@
+import { TERMINAL, TerminalName, Terminals, DEFAULT_TERMINALS } from './terminal';
+import { findTerminalConflict } from '../finite-automation/finite-automation';
+
+/**
+ * The built-in syntax profiles.
+ *
+ * Each profile assigns its own symbols to some of the terminals. The other terminals keep their
+ * default symbols.
+ */
+export const SYNTAX_PROFILES: { readonly [profile: string]: Partial<Terminals> } = {
+    'default': {},
+    // Ranges like Vim's command line ranges, for example `10,20` or `10|5,20|3`
+    'vim-like': {
+        SELECT_SEPARATOR:       ',',
+        QUICK_SELECT_SEPARATOR: ':',
+        COORDINATE_SEPARATOR:   '|'
+    },
+    // Ranges like the line anchors of GitHub's links, for example `L10-L20` or `L10C5-L20C3`
+    'github-like': {
+        LINE_PREFIX:          'L',
+        SELECT_SEPARATOR:     '-',
+        COORDINATE_SEPARATOR: 'C',
+        END_OF_LINE_SHORTCUT: 'E',
+        NEGATIVE_SIGN_PREFIX: '!',
+        SUBTRACTION_OPERATOR: '!'
+    }
+};
+
+/** The symbols of the terminals for the user's syntax, or why that syntax cannot be used. */
+export type Syntax = { ok: true, terminals: Terminals } | { ok: false, message: string };
+
+/**
+ * Get the terminals of a syntax profile after the symbols in `overrides` are assigned on top of it.
+ *
+ * The digits cannot be reassigned, and every other terminal can only be assigned a single character
+ * that is neither whitespace nor a digit. The resulting syntax is also rejected if it would make the
+ * finite automation ambiguous (see `findTerminalConflict`).
+ *
+ * @param profile The name of one of the `SYNTAX_PROFILES`.
+ * @param overrides Maps the names of terminals to the symbols they should be typed as.
+ */
+export function resolveSyntax(profile: string, overrides: { readonly [name: string]: string }): Syntax {
+    if (!SYNTAX_PROFILES.hasOwnProperty(profile)) {
+        return { ok: false, message: `Unknown syntax profile '${profile}'.` };
+    }
+    const terminals: { [name in TerminalName]: string } = { ...DEFAULT_TERMINALS, ...SYNTAX_PROFILES[profile] };
+    for (const [name, symbol] of Object.entries(overrides)) {
+        if (!isTerminalName(name)) {
+            return { ok: false, message: `Unknown terminal '${name}'.` };
+        }
+        if (/^\d$/.test(TERMINAL[name])) {
+            return { ok: false, message: `${name} cannot be reassigned.` };
+        }
+        if ([...symbol].length !== 1 || /^[\s\d]$/u.test(symbol)) {
+            return { ok: false, message: `${name} must be a single character that is not whitespace or a digit.` };
+        }
+        terminals[name] = symbol;
+    }
+    const conflict = findTerminalConflict(terminals);
+    if (conflict !== undefined) {
+        return { ok: false, message: conflict };
+    }
+    return { ok: true, terminals };
+}
+
+function isTerminalName(name: string): name is TerminalName {
+    return TERMINAL.hasOwnProperty(name);
+}
@@ -0,0 +1,9 @@
+/** 
+ * Check if `token` can be part of the name of a document symbol (such as a function or class). 
+ * 
+ * Like mark names, symbol names are not terminals. Only the characters that are allowed in the 
+ * identifiers of most programming languages can be part of a symbol name.
+ */
+export function isSymbolNameCharacter(token: string): boolean {
+    return /^[\w$]$/.test(token);
+}
@@ -5,7 +5,51 @@ export enum TERMINAL {
     SELECT_SEPARATOR = ':',
 
     /** Separates the two coordinates in an quick selection command. */
-    QUICK_SELECT_SEPARATOR = ',',
+    QUICK_SELECT_SEPARATOR = '|',
+
+    /** Separates the two coordinates in a block selection command. */
+    BLOCK_SELECT_SEPARATOR = '#',
+
+    /** 
+     * Precedes the only coordinate of a command that moves the `active` end of the existing 
+     * selection to it, while keeping the selection's `anchor` where it is.
+     */
+    ADJUST_ACTIVE_SEPARATOR = '>',
+
+    /** Same as `ADJUST_ACTIVE_SEPARATOR` but moves the `anchor` end while keeping the `active` end. */
+    ADJUST_ANCHOR_SEPARATOR = '<',
+
+    /** 
+     * Follows the coordinate of a command that selects a number of lines starting from the line of 
+     * that coordinate, where the number follows it.
+     */
+    COUNT_SEPARATOR = '.',
+
+    /** Follows the number after the `COUNT_SEPARATOR` to count characters instead of lines. */
+    CHARACTER_COUNT_SUFFIX = 'c',
+
+    /** 
+     * Follows the second coordinate of a selection command to make it target only every Nth line 
+     * within the selected range, where N is the number that follows it.
+     */
+    STEP_SEPARATOR = '/',
+
+    /** 
+     * Optional prefix of a line term whose number is absolute, such as the `L` in `L10`. It is 
+     * disabled (i.e. never read) by default and is only assigned a symbol by a syntax profile or 
+     * the user's settings.
+     */
+    LINE_PREFIX = '',
+
+    /** Separates the targets when more than one target (i.e. cursor) is specified. */
+    TARGET_SEPARATOR = ';',
+
+    /** 
+     * Prefix of a target that is resolved against every cursor instead of only the primary one, so
+     * that it results in one selection per cursor (leaving out any that another cursor already 
+     * resulted in).
+     */
+    PER_CURSOR_PREFIX = '&',
 
     /** Separates the line term from the number term in a coordinate. */
     COORDINATE_SEPARATOR = ',',
@@ -16,6 +60,100 @@ export enum TERMINAL {
     /** Minus sign to prefix a negative relative term. */
     NEGATIVE_SIGN_PREFIX = '-',
 
+    /** Addition operator within the expression of a term. */
+    ADDITION_OPERATOR = '+',
+
+    /** Subtraction operator within the expression of a term. */
+    SUBTRACTION_OPERATOR = '-',
+
+    /** Multiplication operator within the expression of a term. */
+    MULTIPLICATION_OPERATOR = '*',
+
+    /** Opens a parenthesized subexpression within the expression of a term. */
+    OPEN_PARENTHESIS = '(',
+
+    /** Closes a parenthesized subexpression within the expression of a term. */
+    CLOSE_PARENTHESIS = ')',
+
+    /** Suffix that makes the magnitude of a line term a percentage of the document's line count. */
+    PERCENTAGE_SUFFIX = '%',
+
+    /** Line term for the last line of the document. */
+    END_OF_DOCUMENT = '$',
+
+    /** Line term for the first line that is visible in the editor. */
+    TOP_OF_VIEWPORT = '^',
+
+    /** Line term for the line in the middle of the lines that are visible in the editor. */
+    MIDDLE_OF_VIEWPORT = '~',
+
+    /** Line term for the last line that is visible in the editor. */
+    BOTTOM_OF_VIEWPORT = '_',
+
+    /** 
+     * Line term for the next blank line that separates paragraphs. The number before it (if any) is
+     * how many paragraphs to move past.
+     */
+    NEXT_PARAGRAPH = '}',
+
+    /** Same as `NEXT_PARAGRAPH` but for the previous blank line that separates paragraphs. */
+    PREVIOUS_PARAGRAPH = '{',
+
+    /** 
+     * Line term for the first line of the indentation block that the reference line is in. The 
+     * number before it (if any) is how many blocks to go out.
+     */
+    START_OF_INDENTATION_BLOCK = '[',
+
+    /** Same as `START_OF_INDENTATION_BLOCK` but for the last line of the indentation block. */
+    END_OF_INDENTATION_BLOCK = ']',
+
+    /** 
+     * Term for the bracket that matches the bracket at the reference position (or the first bracket
+     * after it on the same line).
+     */
+    MATCHING_BRACKET = 'm',
+
+    /** 
+     * Follows a coordinate to select the inside of the innermost pair of brackets around it. If it is 
+     * typed without a coordinate, the pair is the one around the cursor instead. The input is rejected
+     * if there is no such pair.
+     */
+    ENCLOSING_PAIR_SUFFIX = '=',
+
+    /** Prefix of a term that is an offset from the start of the document. */
+    OFFSET_PREFIX = 'o',
+
+    /** Follows the `OFFSET_PREFIX` to make the offset count UTF-8 bytes instead of characters. */
+    BYTE_OFFSET_PREFIX = 'b',
+
+    /** Prefix of a term that is the position of a mark. The name of the mark follows it. */
+    MARK_PREFIX = "'",
+
+    /** Prefix of a term that is the position of a document symbol. The name of the symbol follows it. */
+    SYMBOL_PREFIX = '@',
+
+    /** Delimits the pattern of a line term that searches downwards for the next matching line. */
+    SEARCH_FORWARD_DELIMITER = '/',
+
+    /** Delimits the pattern of a line term that searches upwards for the previous matching line. */
+    SEARCH_BACKWARD_DELIMITER = '?',
+
+    /** Escapes the character that follows it within a pattern, so that it can be a delimiter. */
+    PATTERN_ESCAPE = '\\',
+
+    /** Prefix of a character term that is an occurrence of the character that follows it. */
+    FIND_CHARACTER_PREFIX = 'f',
+
+    /** Same as `FIND_CHARACTER_PREFIX`, except that the term is just before the occurrence. */
+    TILL_CHARACTER_PREFIX = 't',
+
+    /**
+     * Prefix of a character term whose number is a visual column, where a tab counts as however
+     * many columns it takes up in the editor instead of as one character.
+     */
+    VISUAL_COLUMN_PREFIX = 'v',
+
     /** Shortcut to start of line. */
     START_OF_LINE_SHORTCUT = 'H',
 
@@ -48,4 +186,18 @@ export enum TERMINAL {
 
     NINE = '9',
 
-}
\ No newline at end of file
+}
+/** Name of a terminal, such as `'SELECT_SEPARATOR'`. */
+export type TerminalName = keyof typeof TERMINAL;
+
+/** 
+ * The symbol that each terminal is typed as. 
+ * 
+ * The symbols of the default syntax are the values in `TERMINAL`, but a syntax profile or the 
+ * user's settings can assign a different symbol to a terminal. A terminal whose symbol is an empty 
+ * string is never read.
+ */
+export type Terminals = { readonly [name in TerminalName]: string };
+
+/** The symbol of every terminal in the default syntax. */
+export const DEFAULT_TERMINALS: Terminals = { ...TERMINAL };
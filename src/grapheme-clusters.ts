@@ -0,0 +1,111 @@
+/*
+ * Helpers for counting the characters of a line as grapheme clusters (user-perceived characters)
+ * instead of UTF-16 code units.
+ *
+ * The segmentation is a simplified version of Unicode's extended grapheme clusters that covers what
+ * is commonly found in text: combining marks, emoji with modifiers or variation selectors, emoji
+ * joined by zero width joiners, tag sequences and flags made of pairs of regional indicators.
+ */
+
+const ZERO_WIDTH_JOINER = 0x200D;
+
+/** Get the index of the start of the grapheme cluster that follows the one starting at `index`. */
+export function nextGraphemeClusterIndex(text: string, index: number): number {
+    if (index >= text.length) {
+        return text.length;
+    }
+    const first = text.codePointAt(index) as number;
+    let i = index + codeUnitsOf(first);
+    // Regional indicators only form a flag in pairs
+    if (isRegionalIndicator(first) && i < text.length && isRegionalIndicator(text.codePointAt(i) as number)) {
+        i += 2;
+    }
+    let previous = first;
+    while (i < text.length) {
+        const codePoint = text.codePointAt(i) as number;
+        if (!isExtending(codePoint) && previous !== ZERO_WIDTH_JOINER) {
+            break;
+        }
+        previous = codePoint;
+        i += codeUnitsOf(codePoint);
+    }
+    return i;
+}
+
+/**
+ * Get the index of the start of the grapheme cluster that precedes `index`. `0` is returned if
+ * `index` is within the first grapheme cluster of `text`.
+ */
+export function previousGraphemeClusterIndex(text: string, index: number): number {
+    let previous = 0;
+    for (let i = 0; i < Math.min(index, text.length); i = nextGraphemeClusterIndex(text, i)) {
+        previous = i;
+    }
+    return previous;
+}
+
+/**
+ * Get the number of grapheme clusters of `text` that start before `characterIndex`.
+ *
+ * This means an index in the middle of a grapheme cluster is counted as the start of the next one.
+ */
+export function characterIndexToGraphemeIndex(text: string, characterIndex: number): number {
+    let graphemeIndex = 0;
+    for (let i = 0; i < Math.min(characterIndex, text.length); i = nextGraphemeClusterIndex(text, i)) {
+        ++graphemeIndex;
+    }
+    return graphemeIndex;
+}
+
+/**
+ * Get the character index of the start of the `graphemeIndex`th (0-based) grapheme cluster of
+ * `text`. The length of `text` is returned if there are not that many grapheme clusters.
+ */
+export function graphemeIndexToCharacterIndex(text: string, graphemeIndex: number): number {
+    let i = 0;
+    for (let n = 0; n < graphemeIndex && i < text.length; ++n) {
+        i = nextGraphemeClusterIndex(text, i);
+    }
+    return i;
+}
+
+/**
+ * Get the index of the start of the code point that precedes `index`, so that both halves of a 
+ * surrogate pair are stepped over. `0` is returned if `index` is `0`.
+ */
+export function previousCodePointIndex(text: string, index: number): number {
+    if (index <= 0) {
+        return 0;
+    }
+    if (index >= 2 && isLowSurrogate(text.charCodeAt(index - 1)) && isHighSurrogate(text.charCodeAt(index - 2))) {
+        return index - 2;
+    }
+    return index - 1;
+}
+
+/** Code points outside the Basic Multilingual Plane take up two UTF-16 code units. */
+function codeUnitsOf(codePoint: number): number {
+    return codePoint < 0x10000 ? 1 : 2;
+}
+
+function isHighSurrogate(codeUnit: number): boolean {
+    return codeUnit >= 0xD800 && codeUnit <= 0xDBFF;
+}
+
+function isLowSurrogate(codeUnit: number): boolean {
+    return codeUnit >= 0xDC00 && codeUnit <= 0xDFFF;
+}
+
+function isRegionalIndicator(codePoint: number): boolean {
+    return codePoint >= 0x1F1E6 && codePoint <= 0x1F1FF;
+}
+
+/** Whether a code point belongs to the same grapheme cluster as the code point before it. */
+function isExtending(codePoint: number): boolean {
+    return /^\p{M}$/u.test(String.fromCodePoint(codePoint))
+        || codePoint === ZERO_WIDTH_JOINER
+        // Emoji skin tone modifiers
+        || (codePoint >= 0x1F3FB && codePoint <= 0x1F3FF)
+        // Tags, such as those in the flags of subdivisions
+        || (codePoint >= 0xE0020 && codePoint <= 0xE007F);
+}
@@ -0,0 +1,76 @@
+import { Disposable, Position, Range, TextDocument, TextDocumentChangeEvent, workspace } from 'vscode';
+
+/**
+ * Helper class used to keep track of the marks that have been set in each document.
+ *
+ * Marks follow the edits made to their document, so that a mark stays on the same piece of text
+ * even as text is inserted or removed before it.
+ */
+export class Marks {
+
+    /** The marks of each document, keyed by the document's URI and then by the name of each mark. */
+    private marks: Map<string, Map<string, Position>> = new Map();
+
+    /** Watcher that shifts the marks of a document whenever the document is edited. */
+    private changeWatcher: Disposable;
+
+    public constructor() {
+        this.changeWatcher = workspace.onDidChangeTextDocument(event => this.onDidChangeTextDocument(event));
+    }
+
+    /** Set the mark called `name` in `document` to `position`, overwriting any previous one. */
+    public set(document: TextDocument, name: string, position: Position): void {
+        const key = document.uri.toString();
+        const marks = this.marks.get(key) || new Map<string, Position>();
+        marks.set(name, position);
+        this.marks.set(key, marks);
+    }
+
+    /** Get all the marks that have been set in `document`. */
+    public of(document: TextDocument): ReadonlyMap<string, Position> {
+        return this.marks.get(document.uri.toString()) || new Map();
+    }
+
+    public dispose(): void {
+        this.changeWatcher.dispose();
+        this.marks.clear();
+    }
+
+    private onDidChangeTextDocument({ document, contentChanges }: TextDocumentChangeEvent): void {
+        const marks = this.marks.get(document.uri.toString());
+        if (!marks) {
+            return;
+        }
+        /* The changes are ordered such that applying them one after another results in the edited
+        document. */
+        for (const { range, text } of contentChanges) {
+            for (const [name, mark] of marks) {
+                marks.set(name, shift(mark, range, text));
+            }
+        }
+    }
+
+}
+
+/**
+ * Get the new position of `mark` after the text in `range` is replaced with `text`.
+ *
+ * Marks within the replaced range are moved to the start of the range, since the text that they
+ * were on no longer exists.
+ */
+function shift(mark: Position, range: Range, text: string): Position {
+    if (mark.isBefore(range.end)) {
+        return mark.isAfter(range.start) ? range.start : mark;
+    }
+    const insertedLines = text.split(/\r\n|\r|\n/);
+    const lastInsertedLine = insertedLines[insertedLines.length - 1];
+    const lineDelta = insertedLines.length - 1 - (range.end.line - range.start.line);
+    if (mark.line !== range.end.line) {
+        return mark.translate(lineDelta);
+    }
+    // Marks on the same line as the end of the range also have to be shifted horizontally
+    const character = (insertedLines.length === 1 ? range.start.character : 0)
+        + lastInsertedLine.length
+        + mark.character - range.end.character;
+    return new Position(mark.line + lineDelta, character);
+}
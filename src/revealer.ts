@@ -1,5 +1,6 @@
 import { TextEditor, window, Range, TextEditorRevealType, TextEditorDecorationType, Selection, Position, Disposable, ThemeColor } from 'vscode';
 import { Configuration } from './configuration';
+import { previousGraphemeClusterIndex } from './grapheme-clusters';
 
 /** Helper class used to reveal and highlight `Selection`s in a `TextEditor`. */
 export class Revealer {
@@ -35,8 +36,61 @@ export class Revealer {
     }
     
     /** 
-     * Reveal and highlight a location in the text. Unless `noDecorate` is `true`, the entire line 
-     * that the target is on is highlighted. 
+     * Reveal and highlight the targets of an input. Unless `noDecorate` is `true`, every target is
+     * highlighted: an empty target as a location (see `revealLocation`) and a non-empty target as a
+     * selection (see `revealSelection`). 
+     * 
+     * However, if there are any non-empty targets then the empty targets only get a pseudocursor,
+     * since highlighting their entire line would obscure the selections. This is what allows a block 
+     * selection (where lines that are too short result in empty targets) to be drawn as a rectangle.
+     * 
+     * Only the primary target (the first element of `targets`) is used to determine how the viewport
+     * changes, and the delay behaves the same way as that of the primary target's kind of reveal.
+     * 
+     * If a new reveal is called before the previous one has executed, then the previous one will be 
+     * cancelled.
+     */
+    public revealTargets(targets: ReadonlyArray<Selection>, options: { noDecorate?: boolean , noDelay?: boolean } = {}): void {
+        const hasSelections = targets.some(target => !target.isEmpty);
+        const decorate = () => {
+            const decorations: TextEditorDecorationType[] = [];
+            for (const target of targets) {
+                if (!target.isEmpty) {
+                    decorations.push(...decorateSelection({
+                        editor: this.editor,
+                        selection: target,
+                        highlightColor: this.configuration.selectionHighlightColor,
+                        pseudocursorColor: this.configuration.pseudocursorColor
+                    }));
+                } else if (hasSelections) {
+                    decorations.push(...placePseudoCursor({
+                        editor: this.editor,
+                        position: target.active,
+                        color: this.configuration.pseudocursorColor,
+                        dotted: false
+                    }));
+                } else {
+                    decorations.push(...decorateLocation({
+                        editor: this.editor,
+                        location: target.active,
+                        highlightColor: this.configuration.goToLineHighlightColor,
+                        pseudocursorColor: this.configuration.pseudocursorColor
+                    }));
+                }
+            }
+            return decorations;
+        };
+        const primary = targets[0];
+        if (primary.isEmpty) {
+            this.revealLocation(primary.active, decorate, options);
+        } else {
+            this.revealSelection(primary, decorate, options);
+        }
+    }
+
+    /** 
+     * Reveal a location in the text. Unless `noDecorate` is `true`, `decorate` is called to 
+     * highlight the targets once the location is revealed. 
      * 
      * The reveal might be delayed depending on the location and height of the target selection
      * relative to the current viewport:
@@ -50,7 +104,11 @@ export class Revealer {
      * If a new reveal is called (whether via this method or via `this.revealSelection()`) before 
      * the previous one has executed, then the previous one will be cancelled.
      */
-    public revealLocation(location: Position, options: { noDecorate?: boolean , noDelay?: boolean } = {}): void {
+    private revealLocation(
+        location: Position, 
+        decorate: () => TextEditorDecorationType[], 
+        options:  { noDecorate?: boolean , noDelay?: boolean }
+    ): void {
         this.clear();
         const _revealLocation = (center: boolean, delay: boolean): void => {
             if (delay) {
@@ -63,12 +121,7 @@ export class Revealer {
                 );
             } else {
                 if (!options.noDecorate) {
-                    this.decorations = decorateLocation({
-                        editor: this.editor,
-                        location,
-                        highlightColor: this.configuration.goToLineHighlightColor,
-                        pseudocursorColor: this.configuration.pseudocursorColor
-                    });
+                    this.decorations = decorate();
                 }
                 this.editor.revealRange(
                     new Range(location, location), 
@@ -91,8 +144,8 @@ export class Revealer {
     }
 
     /** 
-     * Reveal and highlight a selection. Unless `noDecorate` is `true`, the entire selection will be
-     * highlighted.
+     * Reveal a selection. Unless `noDecorate` is `true`, `decorate` is called to highlight the 
+     * targets once the selection is revealed.
      * 
      * The reveal might be delayed depending on the location and height of the target selection 
      * relative to the current viewport:
@@ -107,7 +160,11 @@ export class Revealer {
      * If a new reveal is called (whether via this method or via `this.revealLocation()`) before 
      * the previous one has executed, then the previous one will be cancelled.
      */
-    public revealSelection(selection: Selection, options: { noDecorate?: boolean , noDelay?: boolean } = {}): void {
+    private revealSelection(
+        selection: Selection, 
+        decorate:  () => TextEditorDecorationType[], 
+        options:   { noDecorate?: boolean , noDelay?: boolean }
+    ): void {
         this.clear();
         const _revealSelection = (target: Selection, center: boolean, delay: boolean): void => {
             if (delay) {
@@ -122,12 +179,7 @@ export class Revealer {
                 );
             } else {
                 if (!options.noDecorate) {
-                    this.decorations = decorateSelection({
-                        editor: this.editor,
-                        selection: target,
-                        highlightColor: this.configuration.selectionHighlightColor,
-                        pseudocursorColor: this.configuration.pseudocursorColor
-                    });
+                    this.decorations = decorate();
                 }
                 this.editor.revealRange(
                     target, 
@@ -300,13 +352,16 @@ function placePseudoCursor(args: {
         return [cursorAtLineStart];
     } else {
         /* Otherwise if cursor is at character index n > 0, half of it is within the end of 
-        index n and half within the start of index n - 1. */
+        index n and half within the start of the character before it. That character is a whole 
+        grapheme cluster, since decorating only part of one (such as half of a surrogate pair) 
+        decorates the wrong place. */
+        const previous = previousGraphemeClusterIndex(editor.document.lineAt(position).text, position.character);
         const cursorFirstHalf = window.createTextEditorDecorationType({
             borderColor: color,
             borderStyle: `none ${dotted ? 'dotted' : 'solid'} none none`,
             borderWidth: '1px',
         });
-        editor.setDecorations(cursorFirstHalf, [ new Range(position.translate(0, -1), position) ]);
+        editor.setDecorations(cursorFirstHalf, [ new Range(position.with(undefined, previous), position) ]);
         const cursorSecondHalf = window.createTextEditorDecorationType({
             borderColor: color,
             borderStyle: `none none none ${dotted ? 'dotted' : 'solid'}`,
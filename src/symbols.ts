@@ -0,0 +1,43 @@
+import { commands, DocumentSymbol, Position, SymbolInformation, TextDocument } from 'vscode';
+
+/**
+ * Get the position of each symbol (such as a function or class) in `document` from the document's
+ * symbol provider, keyed by the name of the symbol.
+ *
+ * Nested symbols (such as the methods of a class) are included. If more than one symbol has the
+ * same name, the first one in the document is used. And since some symbol providers include more
+ * than just the identifier in the name (for instance `foo(int, int)`), each symbol can also be
+ * referred to by the identifier that its name starts with.
+ *
+ * The result is empty if there is no symbol provider for the document.
+ */
+export async function getDocumentSymbols(document: TextDocument): Promise<Map<string, Position>> {
+    const result = await commands.executeCommand<(DocumentSymbol | SymbolInformation)[]>(
+        'vscode.executeDocumentSymbolProvider',
+        document.uri
+    );
+    const positions: [string, Position][] = [];
+    const stack = result ? [...result] : [];
+    while (stack.length > 0) {
+        const symbol = stack.pop() as DocumentSymbol | SymbolInformation;
+        // Depending on the symbol provider, we get either hierarchical or flat symbols
+        if ('children' in symbol) {
+            positions.push([symbol.name, symbol.selectionRange.start]);
+            stack.push(...symbol.children);
+        } else {
+            positions.push([symbol.name, symbol.location.range.start]);
+        }
+    }
+    positions.sort(([, a], [, b]) => b.compareTo(a));
+    const names   = new Set(positions.map(([name]) => name));
+    const symbols = new Map<string, Position>();
+    // Going backwards through the document means that the first symbol of a name is set last
+    for (const [name, position] of positions) {
+        symbols.set(name, position);
+        const identifier = /^[\w$]+/.exec(name);
+        if (identifier && !names.has(identifier[0])) {
+            symbols.set(identifier[0], position);
+        }
+    }
+    return symbols;
+}
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { workspace } from 'vscode';
+import { Controller } from '../controller';
+import { Marks } from '../marks';
+import { withTestInputBox, settle } from './test-utilities.test';
+import { loremIpsumEditor } from './extension.test';
+
+export function runSuite(): void {
+
+    suite('Controller Tests', () => {
+        test(
+            `1 - Search That Looks Like A Path`,
+            async () => await withTestInputBox(async testInputBox => {
+                const editor     = await loremIpsumEditor;
+                const selections = editor.selections;
+                const { findFiles } = workspace;
+                let findFilesCalls = 0;
+                workspace.findFiles = (...args: Parameters<typeof findFiles>) => {
+                    ++findFilesCalls;
+                    return findFiles(...args);
+                };
+                const marks      = new Marks();
+                const controller = new Controller(marks);
+                try {
+                    controller.show(editor);
+                    // A search without a match is rejected, but must not be completed to a path
+                    testInputBox.type('/nomatch/');
+                    testInputBox.accept();
+                    await settle();
+                    assert.strictEqual(testInputBox.inputBox.value, '/nomatch/', 'Input Changed');
+                    assert.strictEqual(findFilesCalls, 0, 'Workspace Searched For Paths');
+                    assert.deepStrictEqual(editor.selections, selections, 'Cursors Moved');
+                } finally {
+                    controller.dispose();
+                    marks.dispose();
+                    workspace.findFiles = findFiles;
+                }
+            })
+        );
+    });
+
+}
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { Dialog } from '../dialog';
+import { withTestInputBox, settle } from './test-utilities.test';
+
+/** The feedback that the dialogs in the tests show when a validation or an acceptance fails. */
+const ERROR_FEEDBACK = { ok: false, message: 'Type in a line number.' };
+
+export function runSuite(): void {
+
+    suite('Dialog Tests', () => {
+        test(
+            `1 - Failed Validation`,
+            async () => await withTestInputBox(async testInputBox => {
+                const dialog = new Dialog({
+                    placeholder: '',
+                    validate: (value) => value === 'fail' ? Promise.reject(new Error()) : { ok: true, message: value },
+                    onDidAccept: () => false,
+                    onDidHideViaEscapeOrFocusChange: () => {},
+                    onDidHideViaSelectionInterrupt:  () => {},
+                    onError: () => ERROR_FEEDBACK
+                });
+                try {
+                    testInputBox.type('fail');
+                    await settle();
+                    // The pending message must not be left in place
+                    assert.strictEqual(testInputBox.inputBox.prompt, '');
+                    assert.strictEqual(testInputBox.inputBox.validationMessage, ERROR_FEEDBACK.message);
+                } finally {
+                    dialog.dispose();
+                }
+            })
+        );
+        test(
+            `2 - Failed Acceptance`,
+            async () => await withTestInputBox(async testInputBox => {
+                let isHidden = false;
+                const dialog = new Dialog({
+                    placeholder: '',
+                    validate: (value) => ({ ok: true, message: value }),
+                    onDidAccept: () => Promise.reject(new Error()),
+                    onDidHideViaEscapeOrFocusChange: () => isHidden = true,
+                    onDidHideViaSelectionInterrupt:  () => isHidden = true,
+                    onError: () => ERROR_FEEDBACK
+                });
+                try {
+                    testInputBox.type('10');
+                    testInputBox.accept();
+                    await settle();
+                    assert.strictEqual(testInputBox.inputBox.validationMessage, ERROR_FEEDBACK.message);
+                    // The dialog is kept open, so it still validates what is typed in
+                    testInputBox.type('20');
+                    assert.strictEqual(testInputBox.inputBox.prompt, '20');
+                    assert.strictEqual(isHidden, false);
+                } finally {
+                    dialog.dispose();
+                }
+            })
+        );
+    });
+
+}
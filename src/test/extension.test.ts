@@ -1,21 +1,55 @@
 import { runSuite as runParserTestSuite } from './parser.test';
+import { runSuite as runGraphTestSuite } from './graph.test';
+import { runSuite as runFileTargetTestSuite } from './file-target.test';
+import { runSuite as runDialogTestSuite } from './dialog.test';
+import { runSuite as runControllerTestSuite } from './controller.test';
 import { Selection, TextEditor } from 'vscode';
-import { openLoremIpsum } from './test-utilities.test';
+import { openLoremIpsum, openColumns, openBrackets } from './test-utilities.test';
 
 /** 
  * This is the initial state of the primary selection. We give it an arbitrary selection from row 
- * 50, column 50 to row 60, column 60. 
+ * 60, column 60 back to row 50, column 50, so that the cursor (the selection's `active`) that the 
+ * relative terms are measured from is at row 50, column 50.
  * 
  * Note that VS Code stores positions in 0-based numbers so we have subtracted each value by 1 when
  * creating a `Selection` type.
  */
-export const INITIAL_SELECTION = new Selection(49, 49, 59, 59);
+export const INITIAL_SELECTION = new Selection(59, 59, 49, 49);
 
 /** The `lorem-upsum.txt` that is used as a basis for our tests. */
 export const loremIpsumEditor: Promise<TextEditor> = openLoremIpsum(INITIAL_SELECTION);
 
+/** 
+ * This is the initial state of the primary selection in the `columns.txt` document, which is
+ * just before the `return` in line 2 (visual column 9 when the tab size is `4`).
+ */
+export const COLUMNS_INITIAL_SELECTION = new Selection(1, 2, 1, 2);
+
+/** 
+ * The `columns.txt` that is used to test how characters are counted. It is only opened after the 
+ * `lorem-ipsum.txt`, so that it does not take the place of it.
+ */
+export const columnsEditor: Promise<TextEditor> = loremIpsumEditor.then(
+    () => openColumns(COLUMNS_INITIAL_SELECTION)
+);
+
+/** 
+ * This is the initial state of the primary selection in the `brackets.txt` document, which is just 
+ * before the `[` in line 3.
+ */
+export const BRACKETS_INITIAL_SELECTION = new Selection(2, 15, 2, 15);
+
+/** The `brackets.txt` that is used to test the bracket terms. It is only opened after the others. */
+export const bracketsEditor: Promise<TextEditor> = columnsEditor.then(
+    () => openBrackets(BRACKETS_INITIAL_SELECTION)
+);
+
 function testMain(): void {
     runParserTestSuite();
+    runGraphTestSuite();
+    runFileTargetTestSuite();
+    runDialogTestSuite();
+    runControllerTestSuite();
 }
 
 testMain();
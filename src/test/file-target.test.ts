@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { extensions } from 'vscode';
+import { EXT_IDENT } from '../extension';
+import { splitFileTarget, splitPath, looksLikePath, fuzzyMatchPaths } from '../file-target';
+import { DEFAULT_TERMINALS } from '../grammar/terminal';
+import { resolveSyntax } from '../grammar/profile';
+
+/** The paths that are fuzzily matched in the tests. */
+const TEST_PATHS = [
+    'src/controller.ts',
+    'src/configuration.ts',
+    'src/test/extension.test.ts',
+    'test-documents/columns.txt',
+    'README.md',
+];
+
+export function runSuite(): void {
+
+    suite('File Target Tests', () => {
+        test(
+            `1 - Split Path`,
+            () => {
+                assert.deepStrictEqual(splitPath('src/controller.ts:40:10'), { path: 'src/controller.ts', rest: '40:10' });
+                assert.deepStrictEqual(splitPath('C:\\src\\controller.ts:40'), { path: 'C:\\src\\controller.ts', rest: '40' });
+                assert.deepStrictEqual(splitPath('  src/controller.ts '), { path: 'src/controller.ts', rest: undefined });
+            }
+        );
+        test(
+            `2 - Absolute Path`,
+            async () => {
+                const extension = extensions.getExtension(`OnlyLys.${EXT_IDENT}`);
+                if (!extension) {
+                    throw new Error('Unable to find the extension!');
+                }
+                const path   = extension.extensionPath + '/test-documents/columns.txt';
+                const target = await splitFileTarget(`${path}:2:3`, DEFAULT_TERMINALS);
+                assert.ok(target, 'Path Of Existing File Not Recognized');
+                if (target) {
+                    assert.strictEqual(target.uri.fsPath.replace(/\\/g, '/'), path.replace(/\\/g, '/'));
+                    assert.strictEqual(target.input, '2,3');
+                }
+                // Anything other than a location is applied to the file as it is
+                const selection = await splitFileTarget(`${path}:2:5,3`, DEFAULT_TERMINALS);
+                assert.strictEqual(selection && selection.input, '2:5,3');
+                // Locations are translated to the user's syntax
+                const syntax = resolveSyntax('github-like', {});
+                if (!syntax.ok) {
+                    throw new Error('Unreachable!');
+                }
+                const githubLike = await splitFileTarget(`${path}:2`, syntax.terminals);
+                assert.strictEqual(githubLike && githubLike.input, 'L2');
+                // Neither a directory nor a missing file is a target
+                assert.strictEqual(await splitFileTarget(`${extension.extensionPath}:2`, DEFAULT_TERMINALS), undefined);
+                assert.strictEqual(await splitFileTarget(`${path}.missing:2`, DEFAULT_TERMINALS), undefined);
+            }
+        );
+        test(
+            `3 - Inputs Without A Path`,
+            async () => {
+                // These are never looked up as files, even if there is a file with the same name
+                for (const input of [ '', '10', '10:20', '10,5:20,5', '@foo', '/foo.bar/', '/a/', '?c.d?:10', '10.5' ]) {
+                    assert.strictEqual(looksLikePath(input, DEFAULT_TERMINALS), false, `Input: ${input}`);
+                    assert.strictEqual(await splitFileTarget(input, DEFAULT_TERMINALS), undefined, `Input: ${input}`);
+                }
+                // But these cannot be read as an input, so they are
+                for (const input of [ 'src/controller.ts', 'README.md:10', '.gitignore', '/a/b.ts:1', 'C:\\src\\a.ts:1' ]) {
+                    assert.strictEqual(looksLikePath(input, DEFAULT_TERMINALS), true, `Input: ${input}`);
+                }
+            }
+        );
+        test(
+            `4 - Fuzzy Match Paths`,
+            () => {
+                assert.deepStrictEqual(fuzzyMatchPaths('contr.ts', TEST_PATHS, 3), [ 'src/controller.ts' ]);
+                assert.deepStrictEqual(fuzzyMatchPaths('src\\con', TEST_PATHS, 3), [ 'src/controller.ts', 'src/configuration.ts' ]);
+                assert.deepStrictEqual(fuzzyMatchPaths('.t', TEST_PATHS, 2), [ 'src/controller.ts', 'src/configuration.ts' ]);
+                assert.deepStrictEqual(fuzzyMatchPaths('zzz', TEST_PATHS, 3), []);
+            }
+        );
+    });
+
+}
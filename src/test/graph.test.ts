@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import { extensions } from 'vscode';
+import { EXT_IDENT } from '../extension';
+import { generateGraph, findGraphProblems } from '../finite-automation/graph';
+
+export function runSuite(): void {
+
+    suite('Graph Tests', () => {
+        test(
+            `1 - Graph Is Up To Date`,
+            () => {
+                const extension = extensions.getExtension(`OnlyLys.${EXT_IDENT}`);
+                if (!extension) {
+                    throw new Error('Unable to find the extension!');
+                }
+                assert.strictEqual(
+                    readFileSync(extension.extensionPath + '/graph.gv', 'utf8'),
+                    generateGraph(),
+                    '`graph.gv` Does Not Match The Transitions (Run `npm run graph` To Regenerate It)'
+                );
+            }
+        );
+        test(
+            `2 - No Graph Problems`,
+            () => assert.deepStrictEqual(findGraphProblems(), [])
+        );
+    });
+
+}
@@ -1,4 +1,5 @@
-import { Input, getQuickSelectionOneBased, SelectionOneBased } from "./test-utilities.test";
+import { Position, Range, Selection } from 'vscode';
+import { Input, getQuickSelectionOneBased, SelectionOneBased, MultiTargetInput, RejectionInput } from "./test-utilities.test";
 
 /**
  * Go To Test Inputs
@@ -270,7 +271,7 @@ export const quickSelectionTestInputs: Input[] = crossMap<Input, Input>(goToTest
             throw new Error('Error: Cannot Use Expected Bad Inputs To Perform Quick Selection Tests!');
         }
         return {
-            str: `${str1};${str2}`,
+            str: `${str1}|${str2}`,
             expect: getQuickSelectionOneBased([expect1[0], expect1[1], expect2[0], expect2[1]])
         };
     }
@@ -288,7 +289,7 @@ export const quickSelectionFromCursorTestInputs = goToTestInputs.map(
             throw new Error('Error: Cannot Use Expected Bad Inputs To Perform Quick Selection From Cursor Tests!');
         }   
         return {
-            str: `;${str}`,
+            str: `|${str}`,
             expect: getQuickSelectionOneBased([50, 50, expect[0], expect[1]])
         };
     }
@@ -312,6 +313,920 @@ export const whitespaceIgnoreTestInputs: Input[] = goToTestInputs.concat(
         quickSelectionFromCursorTestInputs
     ).map(({ str, expect }) => { return { str: injectRandomWhitespace(str), expect }; });
 
+/**
+ * Percentage Test Inputs
+ * 
+ * These are input strings where the line term is a percentage of the document's line count (which 
+ * is 100 lines for the 'lorem-ipsum' document). Like in Vim, the resulting line number is rounded up.
+ */
+export const percentageTestInputs: Input[] = [
+    // Absolute percentage
+    { str: '1%',               expect: [1, 5, 1, 5]       },
+    { str: '33%',              expect: [33, 13, 33, 13]   },
+    { str: '50%',              expect: [50, 1, 50, 1]     },
+    { str: '100%',             expect: [100, 5, 100, 5]   },
+    // Absolute percentage out of bounds
+    { str: '0%',               expect: [1, 5, 1, 5]       },
+    { str: '150%',             expect: [100, 5, 100, 5]   },
+    // Relative percentage
+    { str: '+10%',             expect: [60, 5, 60, 5]     },
+    { str: '-10%',             expect: [40, 13, 40, 13]   },
+    // Relative percentage out of bounds
+    { str: '+90%',             expect: [100, 5, 100, 5]   },
+    { str: '-90%',             expect: [1, 5, 1, 5]       },
+    // Percentage with character term
+    { str: '50%,10',           expect: [50, 10, 50, 10]   },
+    { str: '60%l',             expect: [60, 103, 60, 103] },
+    // Percentage selection
+    { str: '25%:75%',          expect: [25, 9, 75, 1]     },
+    { str: '10%,1:90%L',       expect: [10, 1, 90, 102]   },
+    // Bad percentages
+    { str: '%',                expect: undefined          },
+    { str: '50%%',             expect: undefined          },
+    { str: '+%',               expect: undefined          },
+    { str: ',50%',             expect: undefined          },
+];
+
+/**
+ * From End Test Inputs
+ * 
+ * These are input strings where the line term is counted upwards from the last line of the document
+ * (which is line 100 for the 'lorem-ipsum' document).
+ */
+export const fromEndTestInputs: Input[] = [
+    // End of document
+    { str: '$',                expect: [100, 5, 100, 5]   },
+    { str: '$-0',              expect: [100, 5, 100, 5]   },
+    // Offset from end of document
+    { str: '$-1',              expect: [99, 1, 99, 1]     },
+    { str: '$-10',             expect: [90, 1, 90, 1]     },
+    { str: '$-99',             expect: [1, 5, 1, 5]       },
+    // Offset from end of document out of bounds
+    { str: '$-100',            expect: [1, 5, 1, 5]       },
+    { str: '$-1000',           expect: [1, 5, 1, 5]       },
+    // End of document with character term
+    { str: '$,10',             expect: [100, 10, 100, 10] },
+    { str: '$L',               expect: [100, 23, 100, 23] },
+    { str: '$-10,+5',          expect: [90, 55, 90, 55]   },
+    // Offset from end of document as percentage
+    { str: '$-10%',            expect: [90, 1, 90, 1]     },
+    // End of document selection
+    { str: '$-20:$',           expect: [80, 17, 100, 5]   },
+    { str: ':$',               expect: [50, 50, 100, 5]   },
+    // Bad end of document terms
+    { str: '$5',               expect: undefined          },
+    { str: '$+5',              expect: undefined          },
+    { str: '$$',               expect: undefined          },
+    { str: '$-',               expect: undefined          },
+    { str: '5$',               expect: undefined          },
+];
+
+/**
+ * Expression Test Inputs
+ * 
+ * These are input strings where the line or character terms contain arithmetic expressions. Note 
+ * that the sign prefix of a relative term acts as the leading operator of the expression, so `-5-3`
+ * moves 8 lines upwards.
+ */
+export const expressionTestInputs: Input[] = [
+    // Absolute line expressions
+    { str: '10+3*4',           expect: [22, 1, 22, 1]     },
+    { str: '2*(3+4)',          expect: [14, 13, 14, 13]   },
+    { str: '((15))',           expect: [15, 1, 15, 1]     },
+    // Absolute line expressions out of bounds
+    { str: '120+3*4',          expect: [100, 5, 100, 5]   },
+    { str: '5-10',             expect: [1, 5, 1, 5]       },
+    // Relative line expressions
+    { str: '+5-3',             expect: [52, 9, 52, 9]     },
+    { str: '-5-3',             expect: [42, 1, 42, 1]     },
+    { str: '-(5-3)',           expect: [48, 21, 48, 21]   },
+    // Expressions in other line terms
+    { str: '$-(2*5)',          expect: [90, 1, 90, 1]     },
+    { str: '(10+5)%',          expect: [15, 1, 15, 1]     },
+    // Character expressions
+    { str: '(20-15),8',        expect: [5, 8, 5, 8]       },
+    { str: '30+5,3*3',         expect: [35, 9, 35, 9]     },
+    { str: ',+(2*5)',          expect: [50, 60, 50, 60]   },
+    // Expression selection
+    { str: '10*2:10*3',        expect: [20, 17, 30, 1]    },
+    // Bad expressions
+    { str: '(5',               expect: undefined          },
+    { str: '5)',               expect: undefined          },
+    { str: '()',               expect: undefined          },
+    { str: '(5))',             expect: undefined          },
+    { str: '5+*3',             expect: undefined          },
+    { str: '*5',               expect: undefined          },
+    { str: '5,(3',             expect: undefined          },
+];
+
+/**
+ * Multiple Target Test Inputs
+ * 
+ * These are input strings that specify more than one target, each of which is expected to result in 
+ * a separate selection (i.e. cursor). Relative terms in every target are calculated with respect to
+ * the initial cursor and not the previous target.
+ */
+export const multipleTargetTestInputs: MultiTargetInput[] = [
+    // Multiple go tos
+    { str: '10;20',            expect: [[10, 1, 10, 1], [20, 17, 20, 17]]                      },
+    { str: '+1;-1',            expect: [[51, 5, 51, 5], [49, 1, 49, 1]]                        },
+    { str: '50%;$-10;5,7',     expect: [[50, 1, 50, 1], [90, 1, 90, 1], [5, 7, 5, 7]]          },
+    // Mixture of go tos and selections
+    { str: '10;20;30,5:30L',   expect: [[10, 1, 10, 1], [20, 17, 20, 17], [30, 5, 30, 121]]    },
+    { str: '10;20;30,5:30,L',  expect: [[10, 1, 10, 1], [20, 17, 20, 17], [30, 5, 30, 121]]    },
+    { str: ':60;:40',          expect: [[50, 50, 60, 5], [50, 50, 40, 13]]                     },
+    // Bad multiple targets
+    { str: '5;',               expect: undefined                                               },
+    { str: ';5',               expect: undefined                                               },
+    { str: '5;;5',             expect: undefined                                               },
+    { str: '5:;6',             expect: undefined                                               },
+    { str: '5;(6',             expect: undefined                                               },
+];
+
+/**
+ * Block Selection Test Inputs
+ * 
+ * These are input strings that select a rectangular block, which is expected to result in one 
+ * selection per line in the block. Character terms are calculated separately for each line, so
+ * lines that are too short have their characters bound to the end of the line.
+ */
+export const blockSelectionTestInputs: MultiTargetInput[] = [
+    // Downwards block
+    { 
+        str: '10,5#20,15',
+        expect: [
+            [10, 5, 10, 5], [11, 5, 11, 15], [12, 5, 12, 15], [13, 5, 13, 15], [14, 5, 14, 15], 
+            [15, 5, 15, 5], [16, 5, 16, 15], [17, 5, 17, 15], [18, 5, 18, 15], [19, 5, 19, 15], 
+            [20, 5, 20, 15]
+        ]
+    },
+    // Upwards block
+    { str: '22,15#20,5',       expect: [[22, 5, 22, 5], [21, 15, 21, 5], [20, 15, 20, 5]]      },
+    // Block with shortcuts calculated per line
+    { str: '5#7',              expect: [[5, 1, 5, 1], [6, 5, 6, 5], [7, 9, 7, 9]]             },
+    { str: '12h#14l',          expect: [[12, 5, 12, 109], [13, 9, 13, 108], [14, 13, 14, 135]] },
+    // Single line block
+    { str: '50,3#50,8',        expect: [[50, 3, 50, 8]]                                        },
+    // Bad block selections
+    { str: '#',                expect: undefined                                               },
+    { str: '5#',               expect: undefined                                               },
+    { str: '5###6',            expect: undefined                                               },
+    { str: '5:6#7',            expect: undefined                                               },
+];
+
+/**
+ * Offset Test Inputs
+ * 
+ * These are input strings with terms that are offsets from the start of the document. The offsets
+ * are expected to start from `0`, which is the default of the `offsetBase` setting. The test 
+ * document only contains ASCII, so every byte offset is the same as the character offset.
+ */
+export const offsetTestInputs: MultiTargetInput[] = [
+    // Character offsets
+    { str: 'o0',               expect: [[1, 1, 1, 1]]                                          },
+    { str: 'o88',              expect: [[1, 89, 1, 89]]                                        },
+    { str: 'o89',              expect: [[2, 1, 2, 1]]                                          },
+    { str: 'o1000',            expect: [[13, 96, 13, 96]]                                      },
+    // Byte offsets
+    { str: 'ob0',              expect: [[1, 1, 1, 1]]                                          },
+    { str: 'ob95',             expect: [[3, 6, 3, 6]]                                          },
+    // Offsets out of bounds
+    { str: 'o100000',          expect: [[100, 23, 100, 23]]                                    },
+    { str: 'ob100000',         expect: [[100, 23, 100, 23]]                                    },
+    // Offsets as the ends of selections
+    { str: 'o0:o88',           expect: [[1, 1, 1, 89]]                                         },
+    { str: '5:ob89',           expect: [[5, 1, 2, 1]]                                          },
+    { str: ':o1000',           expect: [[50, 50, 13, 96]]                                      },
+    { str: 'o89;o95',          expect: [[2, 1, 2, 1], [3, 6, 3, 6]]                            },
+    { str: 'o89#o95',          expect: [[2, 1, 2, 1], [3, 1, 3, 6]]                            },
+    // Bad offsets
+    { str: 'ob',               expect: undefined                                               },
+    { str: 'b5',               expect: undefined                                               },
+    { str: 'oo5',              expect: undefined                                               },
+    { str: 'o-5',              expect: undefined                                               },
+    { str: 'o5b',              expect: undefined                                               },
+    { str: 'o5,5',             expect: undefined                                               },
+    { str: 'o5h',              expect: undefined                                               },
+    { str: 'o89o95',           expect: undefined                                               },
+];
+
+/** 
+ * Marks that have been set for the mark tests (positions are 0-based). Mark `z` is purposefully set
+ * outside the range of the document.
+ */
+export const testMarks: ReadonlyMap<string, Position> = new Map([
+    ['a', new Position(9, 4)],
+    ['b', new Position(19, 9)],
+    ['z', new Position(200, 500)],
+]);
+
+/**
+ * Mark Test Inputs
+ * 
+ * These are input strings with terms that refer to the marks in `testMarks`. An input that refers 
+ * to a mark which has not been set is expected to be rejected.
+ */
+export const markTestInputs: MultiTargetInput[] = [
+    // Go to marks
+    { str: "'a",               expect: [[10, 5, 10, 5]]                                        },
+    { str: "'b",               expect: [[20, 10, 20, 10]]                                      },
+    // Mark out of bounds
+    { str: "'z",               expect: [[100, 23, 100, 23]]                                    },
+    // Marks as the ends of selections
+    { str: "'a:'b",            expect: [[10, 5, 20, 10]]                                       },
+    { str: "'b:'a",            expect: [[20, 10, 10, 5]]                                       },
+    { str: "5:'a",             expect: [[5, 1, 10, 5]]                                         },
+    { str: ":'b",              expect: [[50, 50, 20, 10]]                                      },
+    { str: "'a;'b",            expect: [[10, 5, 10, 5], [20, 10, 20, 10]]                      },
+    { str: "'a#'a",            expect: [[10, 5, 10, 5]]                                        },
+    // Bad marks
+    { str: "'c",               expect: undefined                                               },
+    { str: "'",                expect: undefined                                               },
+    { str: "'A",               expect: undefined                                               },
+    { str: "'1",               expect: undefined                                               },
+    { str: "'ab",              expect: undefined                                               },
+    { str: "''a",              expect: undefined                                               },
+    { str: "'a,5",             expect: undefined                                               },
+];
+
+/** 
+ * Document symbols for the symbol tests (positions are 0-based). In practice these would come from 
+ * the document's symbol provider, which plain text documents do not have.
+ */
+export const testSymbols: ReadonlyMap<string, Position> = new Map([
+    ['main', new Position(29, 10)],
+    ['Other_2', new Position(59, 4)],
+]);
+
+/**
+ * Symbol Test Inputs
+ * 
+ * These are input strings with terms that refer to the symbols in `testSymbols`. An input that 
+ * refers to a symbol which does not exist is expected to be rejected.
+ */
+export const symbolTestInputs: MultiTargetInput[] = [
+    // Go to symbols
+    { str: '@main',            expect: [[30, 11, 30, 11]]                                      },
+    { str: '@Other_2',         expect: [[60, 5, 60, 5]]                                        },
+    // Lines relative to symbols
+    { str: '@main+5',          expect: [[35, 21, 35, 21]]                                      },
+    { str: '@Other_2-10',      expect: [[50, 1, 50, 1]]                                        },
+    { str: '@main-100',        expect: [[1, 5, 1, 5]]                                          },
+    // Symbols as the ends of selections
+    { str: '@main:@Other_2',   expect: [[30, 11, 60, 5]]                                       },
+    { str: ':@main',           expect: [[50, 50, 30, 11]]                                      },
+    { str: '@main;@Other_2-10', expect: [[30, 11, 30, 11], [50, 1, 50, 1]]                     },
+    { str: '@main#@main',      expect: [[30, 11, 30, 11]]                                      },
+    // Bad symbols
+    { str: '@missing',         expect: undefined                                               },
+    { str: '@',                expect: undefined                                               },
+    { str: '@main+',           expect: undefined                                               },
+    { str: '@+5',              expect: undefined                                               },
+    { str: '@main,5',          expect: undefined                                               },
+    { str: '@@main',           expect: undefined                                               },
+];
+
+/**
+ * Search Test Inputs
+ * 
+ * These are input strings with line terms that search for a pattern, starting from the line of the
+ * primary cursor (line 50). Unless a character term is given, the expected character number is the
+ * column of the match. An input with a pattern that does not match anywhere in the document is 
+ * expected to be rejected.
+ */
+export const searchTestInputs: MultiTargetInput[] = [
+    // Search downwards
+    { str: '/Nullam/',         expect: [[57, 67, 57, 67]]                                      },
+    { str: '/Mauris/',         expect: [[52, 15, 52, 15]]                                      },
+    { str: '/^Mauris/',        expect: [[90, 1, 90, 1]]                                        },
+    // Search upwards
+    { str: '?Nullam?',         expect: [[32, 113, 32, 113]]                                    },
+    { str: '?Mauris?',         expect: [[31, 28, 31, 28]]                                      },
+    // Closing delimiter omitted
+    { str: '/Nullam',          expect: [[57, 67, 57, 67]]                                      },
+    { str: '?Nullam',          expect: [[32, 113, 32, 113]]                                    },
+    // Search wraps around the document
+    { str: '/ultrices/',       expect: [[5, 43, 5, 43]]                                        },
+    { str: '?Phasellus?',      expect: [[92, 83, 92, 83]]                                      },
+    // Escapes and whitespace within patterns
+    { str: '/\\w+ullam/',      expect: [[57, 67, 57, 67]]                                      },
+    { str: '/\\/\\/ END/',     expect: [[100, 5, 100, 5]]                                      },
+    { str: '?\\/\\/ THIS?',    expect: [[1, 5, 1, 5]]                                          },
+    { str: ' / Nullam / ',     expect: [[57, 66, 57, 66]]                                      },
+    // With character terms
+    { str: '/Nullam/,1',       expect: [[57, 1, 57, 1]]                                        },
+    { str: '/Nullam/,-5',      expect: [[57, 45, 57, 45]]                                      },
+    { str: '/Nullam/h',        expect: [[57, 29, 57, 29]]                                      },
+    { str: '/Nullam/L',        expect: [[57, 126, 57, 126]]                                    },
+    // Searches as the ends of selections
+    { str: '/Nullam/:/Donec/', expect: [[57, 67, 54, 33]]                                      },
+    { str: '?Nullam?:/Nullam', expect: [[32, 113, 57, 67]]                                     },
+    { str: '5:?Nullam?',       expect: [[5, 1, 32, 113]]                                       },
+    { str: '/Nullam/;?Nullam', expect: [[57, 67, 57, 67], [32, 113, 32, 113]]                  },
+    { str: '/Nullam/#/Nullam', expect: [[57, 67, 57, 67]]                                      },
+    // Bad searches
+    { str: '/',                expect: undefined                                               },
+    { str: '//',               expect: undefined                                               },
+    { str: '??',               expect: undefined                                               },
+    { str: '/xyzzy/',          expect: undefined                                               },
+    { str: '/[/',              expect: undefined                                               },
+    { str: '/Nullam\\',        expect: undefined                                               },
+    { str: '/Nullam/5',        expect: undefined                                               },
+    { str: '/Nullam/,',        expect: undefined                                               },
+    { str: '/Nullam//',        expect: undefined                                               },
+];
+
+/**
+ * Find Character Test Inputs
+ * 
+ * These are input strings with character terms that find a character in the target line. If the 
+ * character does not occur in the line, the expected character number is the same as when the 
+ * character term is omitted (i.e. the first non-whitespace character).
+ */
+export const findCharacterTestInputs: MultiTargetInput[] = [
+    // Find and till
+    { str: '57,f,',            expect: [[57, 43, 57, 43]]                                      },
+    { str: '57,t,',            expect: [[57, 42, 57, 42]]                                      },
+    { str: '1,fT',             expect: [[1, 8, 1, 8]]                                          },
+    { str: 'f.',               expect: [[50, 34, 50, 34]]                                      },
+    { str: 't.',               expect: [[50, 33, 50, 33]]                                      },
+    // With counts
+    { str: '57,2f,',           expect: [[57, 92, 57, 92]]                                      },
+    { str: '57,2t,',           expect: [[57, 91, 57, 91]]                                      },
+    { str: ',3f.',             expect: [[50, 85, 50, 85]]                                      },
+    { str: '1,5fT',            expect: [[1, 50, 1, 50]]                                        },
+    { str: '57,(1+1)f,',       expect: [[57, 92, 57, 92]]                                      },
+    { str: '57,5f,',           expect: [[57, 92, 57, 92]]                                      },
+    // A number right before the prefix is a count in the line of the cursor, like in Vim
+    { str: '3f.',              expect: [[50, 85, 50, 85]]                                      },
+    { str: '3t.',              expect: [[50, 84, 50, 84]]                                      },
+    { str: '(1+2)f.',          expect: [[50, 85, 50, 85]]                                      },
+    { str: ':3f.',             expect: [[50, 50, 50, 85]]                                      },
+    // But a relative number before the prefix is still a line
+    { str: '+7f,',             expect: [[57, 43, 57, 43]]                                      },
+    // Counted from the end of the line
+    { str: '57,-1f.',          expect: [[57, 125, 57, 125]]                                    },
+    { str: '57,-2f.',          expect: [[57, 65, 57, 65]]                                      },
+    { str: '57,-1t.',          expect: [[57, 126, 57, 126]]                                    },
+    // Characters that are also terminals or whitespace
+    { str: '57,f;',            expect: [[57, 29, 57, 29]]                                      },
+    { str: '57,f ',            expect: [[57, 1, 57, 1]]                                        },
+    { str: '60, f.',           expect: [[60, 21, 60, 21]]                                      },
+    { str: '57,ff',            expect: [[57, 29, 57, 29]]                                      },
+    // Find characters as the ends of selections
+    { str: '57,f,:57,t.',      expect: [[57, 43, 57, 64]]                                      },
+    { str: 'f.:t.',            expect: [[50, 34, 50, 33]]                                      },
+    { str: '57,t;;60,f,',      expect: [[57, 29, 57, 29], [60, 84, 60, 84]]                    },
+    { str: '57,f,#58,f.',      expect: [[57, 43, 57, 65], [58, 1, 58, 1]]                      },
+    // Bad find characters
+    { str: 'f',                expect: undefined                                               },
+    { str: '57t',              expect: undefined                                               },
+    { str: '57,f',             expect: undefined                                               },
+    { str: '57,+f,',           expect: undefined                                               },
+    { str: '57hf,',            expect: undefined                                               },
+    { str: '57,f,5',           expect: undefined                                               },
+    { str: '57,f,,',           expect: undefined                                               },
+    { str: '3f.,5',            expect: undefined                                               },
+];
+
+/**
+ * Astral Find Character Test Inputs
+ * 
+ * These are input strings that find characters in the 'columns' document, where the emoji of line 7 
+ * are outside the Basic Multilingual Plane and thus take up two UTF-16 code units each. Just before 
+ * or after an emoji is never expected to be between its two code units.
+ */
+export const astralFindCharacterTestInputs: MultiTargetInput[] = [
+    { str: '7,ty',             expect: [[7, 4, 7, 4]]                                          },
+    { str: '7,tx',             expect: [[7, 1, 7, 1]]                                          },
+    { str: '7,2f😀',           expect: [[7, 4, 7, 4]]                                          },
+    { str: '7,2t😀',           expect: [[7, 3, 7, 3]]                                          },
+    { str: '7,-2t😀',          expect: [[7, 3, 7, 3]]                                          },
+    { str: '7,5f😀',           expect: [[7, 4, 7, 4]]                                          },
+    // Only one character is found, even if it is made of two code units
+    { str: '7,f😀😀',          expect: undefined                                               },
+];
+
+/** 
+ * The lines that are visible in the editor for the viewport tests. The visible lines depend on the 
+ * size of the window the tests are run in, so a fixed range (line 21 to line 45) is used instead.
+ */
+export const testViewport: Range = new Range(20, 0, 44, 105);
+
+/**
+ * Viewport Test Inputs
+ * 
+ * These are input strings with line terms that are relative to the lines in `testViewport`. The 
+ * middle of the viewport is line 33.
+ */
+export const viewportTestInputs: MultiTargetInput[] = [
+    // Edges of the viewport
+    { str: '^',                expect: [[21, 21, 21, 21]]                                      },
+    { str: '~',                expect: [[33, 13, 33, 13]]                                      },
+    { str: '_',                expect: [[45, 9, 45, 9]]                                        },
+    // Offsets from the edges
+    { str: '^+3',              expect: [[24, 5, 24, 5]]                                        },
+    { str: '^-3',              expect: [[18, 9, 18, 9]]                                        },
+    { str: '~+3',              expect: [[36, 1, 36, 1]]                                        },
+    { str: '_-3',              expect: [[42, 1, 42, 1]]                                        },
+    // Offsets out of bounds
+    { str: '^-100',            expect: [[1, 5, 1, 5]]                                          },
+    { str: '_+100',            expect: [[100, 5, 100, 5]]                                      },
+    // With character terms
+    { str: '^H',               expect: [[21, 1, 21, 1]]                                        },
+    { str: '_L',               expect: [[45, 106, 45, 106]]                                    },
+    { str: '^,5',              expect: [[21, 5, 21, 5]]                                        },
+    { str: '^+3,10',           expect: [[24, 10, 24, 10]]                                      },
+    // Viewport terms as the ends of selections
+    { str: '^:_',              expect: [[21, 21, 45, 9]]                                       },
+    { str: '^:100',            expect: [[21, 21, 100, 5]]                                      },
+    { str: '5:~',              expect: [[5, 1, 33, 13]]                                        },
+    { str: '^;_',              expect: [[21, 21, 21, 21], [45, 9, 45, 9]]                      },
+    { str: '^#^+1',            expect: [[21, 21, 21, 21], [22, 1, 22, 1]]                      },
+    // Bad viewport terms
+    { str: '^+',               expect: undefined                                               },
+    { str: '^^',               expect: undefined                                               },
+    { str: '^5',               expect: undefined                                               },
+    { str: '~+3+',             expect: undefined                                               },
+    { str: '^%',               expect: undefined                                               },
+    { str: '_-(3)',            expect: undefined                                               },
+];
+
+/**
+ * Stepped Range Test Inputs
+ * 
+ * These are input strings for ranges that target only every Nth line, which is expected to result in
+ * one selection per targeted line. The ends of the range are inclusive, however the end is skipped 
+ * if it is not a whole number of steps away from the start.
+ */
+export const steppedRangeTestInputs: MultiTargetInput[] = [
+    // Cursors on every Nth line
+    { 
+        str: '10:20/2',
+        expect: [[10, 1, 10, 1], [12, 5, 12, 5], [14, 13, 14, 13], [16, 1, 16, 1], [18, 9, 18, 9], [20, 17, 20, 17]]
+    },
+    { str: '10:20/3',          expect: [[10, 1, 10, 1], [13, 9, 13, 9], [16, 1, 16, 1], [19, 13, 19, 13]] },
+    { str: '20:10/5',          expect: [[20, 17, 20, 17], [15, 1, 15, 1], [10, 1, 10, 1]]     },
+    { str: ':54/2',            expect: [[50, 1, 50, 1], [52, 9, 52, 9], [54, 17, 54, 17]]     },
+    // Character terms applied to every targeted line
+    { str: '10:20/3,h',        expect: [[10, 1, 10, 1], [13, 9, 13, 9], [16, 1, 16, 1], [19, 13, 19, 13]] },
+    { str: '10:20/5l',         expect: [[10, 1, 10, 1], [15, 1, 15, 1], [20, 119, 20, 119]]   },
+    { str: '10:20/5,3',        expect: [[10, 3, 10, 3], [15, 3, 15, 3], [20, 3, 20, 3]]       },
+    { str: '10H:14/2',         expect: [[10, 1, 10, 1], [12, 1, 12, 1], [14, 1, 14, 1]]       },
+    // Line selections and blocks
+    { str: '10,5|14/2',        expect: [[10, 1, 10, 5], [12, 1, 12, 110], [14, 1, 14, 135]]   },
+    { str: '12#16/2,3',        expect: [[12, 5, 12, 3], [14, 13, 14, 3], [16, 1, 16, 3]]      },
+    // Step larger than the range
+    { str: '10:20/50',         expect: [[10, 1, 10, 1]]                                        },
+    // Multiple targets
+    { str: '10:12/2;5',        expect: [[10, 1, 10, 1], [12, 5, 12, 5], [5, 1, 5, 1]]         },
+    // Bad stepped ranges
+    { str: '10:20/',           expect: undefined                                               },
+    { str: '10:20/0',          expect: undefined                                               },
+    { str: '10:20/2,',         expect: undefined                                               },
+    { str: '10/2',             expect: undefined                                               },
+    { str: '10:20,5/2',        expect: undefined                                               },
+    { str: '10:20/2/2',        expect: undefined                                               },
+];
+
+/**
+ * Visual Column Test Inputs
+ * 
+ * These are input strings with character terms that are visual columns, which are tested in the 
+ * 'columns' document (with a tab size of `4`) instead of the 'lorem-ipsum' document. A visual
+ * column in the middle of a tab is expected to be at the tab itself.
+ */
+export const visualColumnTestInputs: MultiTargetInput[] = [
+    // Visual columns within and after tabs
+    { str: '1,v1',             expect: [[1, 1, 1, 1]]                                          },
+    { str: '1,v3',             expect: [[1, 1, 1, 1]]                                          },
+    { str: '1,v5',             expect: [[1, 2, 1, 2]]                                          },
+    { str: '1,v6',             expect: [[1, 3, 1, 3]]                                          },
+    { str: '2,v5',             expect: [[2, 2, 2, 2]]                                          },
+    { str: '2,v9',             expect: [[2, 3, 2, 3]]                                          },
+    { str: '3,v5',             expect: [[3, 3, 3, 3]]                                          },
+    { str: '3,v7',             expect: [[3, 4, 3, 4]]                                          },
+    { str: '3,v9',             expect: [[3, 5, 3, 5]]                                          },
+    { str: '5,v7',             expect: [[5, 4, 5, 4]]                                          },
+    { str: '5,v9',             expect: [[5, 5, 5, 5]]                                          },
+    // Lines without tabs, and columns out of bounds
+    { str: '4,v5',             expect: [[4, 5, 4, 5]]                                          },
+    { str: '1,v100',           expect: [[1, 12, 1, 12]]                                        },
+    // Character numbers are unchanged without the prefix
+    { str: '2,9',              expect: [[2, 9, 2, 9]]                                          },
+    // Relative to the visual column of the cursor
+    { str: '1,v+1',            expect: [[1, 7, 1, 7]]                                          },
+    { str: '1,v-4',            expect: [[1, 2, 1, 2]]                                          },
+    { str: ',v+2',             expect: [[2, 5, 2, 5]]                                          },
+    // Expressions
+    { str: '3,v(2*4)+1',       expect: [[3, 5, 3, 5]]                                          },
+    // Visual columns as the ends of selections
+    { str: '1,v5:3,v9',        expect: [[1, 2, 3, 5]]                                          },
+    { str: '1,v5#3,v9',        expect: [[1, 2, 1, 6], [2, 2, 2, 3], [3, 3, 3, 5]]              },
+    { str: '1:5/2,v9',         expect: [[1, 6, 1, 6], [3, 5, 3, 5], [5, 5, 5, 5]]              },
+    // Bad visual columns
+    { str: '1,v',              expect: undefined                                               },
+    { str: '1,vv5',            expect: undefined                                               },
+    { str: '1v5',              expect: undefined                                               },
+    { str: 'v5',               expect: undefined                                               },
+    { str: '1,v5v',            expect: undefined                                               },
+    { str: '1,vh',             expect: undefined                                               },
+];
+
+/**
+ * Visual Column Setting Test Inputs
+ * 
+ * Same as 'Visual Column Test Inputs', except that the `visualColumns` setting is enabled, so that 
+ * every numeric character term is a visual column even without the prefix. Other terms are expected
+ * to be unaffected by the setting.
+ */
+export const visualColumnSettingTestInputs: MultiTargetInput[] = [
+    { str: '2,9',              expect: [[2, 3, 2, 3]]                                          },
+    { str: '3,9',              expect: [[3, 5, 3, 5]]                                          },
+    { str: '1,v5',             expect: [[1, 2, 1, 2]]                                          },
+    { str: '1,+1',             expect: [[1, 7, 1, 7]]                                          },
+    { str: '2h',               expect: [[2, 3, 2, 3]]                                          },
+    { str: '2L',               expect: [[2, 19, 2, 19]]                                        },
+    { str: 'o1',               expect: [[1, 2, 1, 2]]                                          },
+    { str: '2,99',             expect: [[2, 19, 2, 19]]                                        },
+];
+
+/**
+ * Grapheme Cluster Test Inputs
+ * 
+ * These are input strings that are tested in the 'columns' document with the `countGraphemeClusters`
+ * setting enabled, where character terms count user-perceived characters. Each emoji, flag, and 
+ * letter with a combining accent is expected to count as one character.
+ */
+export const graphemeClusterTestInputs: MultiTargetInput[] = [
+    // Combining accents
+    { str: '6,2',              expect: [[6, 3, 6, 3]]                                          },
+    { str: '6,3',              expect: [[6, 4, 6, 4]]                                          },
+    { str: '6,4',              expect: [[6, 6, 6, 6]]                                          },
+    // Emoji outside the Basic Multilingual Plane, with skin tones and joined by zero width joiners
+    { str: '7,3',              expect: [[7, 4, 7, 4]]                                          },
+    { str: '7,4',              expect: [[7, 6, 7, 6]]                                          },
+    { str: '8,2',              expect: [[8, 5, 8, 5]]                                          },
+    { str: '10,2',             expect: [[10, 6, 10, 6]]                                        },
+    { str: '10,3',             expect: [[10, 7, 10, 7]]                                        },
+    // Flags
+    { str: '9,2',              expect: [[9, 5, 9, 5]]                                          },
+    { str: '9,3',              expect: [[9, 9, 9, 9]]                                          },
+    // Out of bounds
+    { str: '6,0',              expect: [[6, 1, 6, 1]]                                          },
+    { str: '9,99',             expect: [[9, 10, 9, 10]]                                        },
+    // Relative character terms, visual columns and find character terms
+    { str: '7,+1',             expect: [[7, 6, 7, 6]]                                          },
+    { str: '6,v3',             expect: [[6, 4, 6, 4]]                                          },
+    { str: '7,ty',             expect: [[7, 4, 7, 4]]                                          },
+    // Shortcuts are unaffected
+    { str: '8L',               expect: [[8, 7, 8, 7]]                                          },
+    // Blocks, including the corner of a position term
+    { str: '6,2#7,3',          expect: [[6, 3, 6, 4], [7, 3, 7, 4]]                            },
+    { str: 'o77#9',            expect: [[8, 5, 8, 1], [9, 5, 9, 1]]                            },
+    // Character counts
+    { str: '7,1.2c',           expect: [[7, 1, 7, 4]]                                          },
+    { str: '9,1.2c',           expect: [[9, 1, 9, 9]]                                          },
+];
+
+/**
+ * Vim-Like Test Inputs
+ * 
+ * These are input strings typed with the 'vim-like' syntax profile, where `,` separates the 
+ * coordinates of a selection, `|` separates the line and character terms of a coordinate, and `:` 
+ * is a quick selection.
+ */
+export const vimLikeTestInputs: MultiTargetInput[] = [
+    // Selections
+    { str: '10,20',            expect: [[10, 1, 20, 17]]                                       },
+    { str: '12|5,20|3',        expect: [[12, 5, 20, 3]]                                        },
+    { str: '12,5',             expect: [[12, 5, 5, 1]]                                         },
+    { str: '50,+5',            expect: [[50, 1, 55, 21]]                                       },
+    { str: ',60',              expect: [[50, 50, 60, 5]]                                       },
+    // Go tos, quick selections and blocks
+    { str: '10|5',             expect: [[10, 5, 10, 5]]                                        },
+    { str: '10:20',            expect: [[10, 1, 20, 120]]                                      },
+    { str: '12|5#14|9',        expect: [[12, 5, 12, 9], [13, 5, 13, 9], [14, 5, 14, 9]]       },
+    // Bad inputs
+    { str: '10|',              expect: undefined                                               },
+    { str: '10,5,20',          expect: undefined                                               },
+];
+
+/**
+ * GitHub-Like Test Inputs
+ * 
+ * These are input strings typed with the 'github-like' syntax profile, where line terms can have an
+ * `L` prefix, `-` separates the coordinates of a selection and `C` separates the line and character
+ * terms of a coordinate. Thus negative numbers and subtraction use `!` and the end of line shortcut
+ * is `E`.
+ */
+export const githubLikeTestInputs: MultiTargetInput[] = [
+    // Selections with and without the line prefix
+    { str: 'L10-L20',          expect: [[10, 1, 20, 17]]                                       },
+    { str: 'L12C5-L20C3',      expect: [[12, 5, 20, 3]]                                        },
+    { str: '10-20',            expect: [[10, 1, 20, 17]]                                       },
+    { str: '-60',              expect: [[50, 50, 60, 5]]                                       },
+    { str: '10|5',             expect: [[10, 5, 5, 1]]                                         },
+    // Go tos
+    { str: 'L10',              expect: [[10, 1, 10, 1]]                                        },
+    { str: 'L12E',             expect: [[12, 110, 12, 110]]                                    },
+    { str: '!5',               expect: [[45, 9, 45, 9]]                                        },
+    { str: 'L10+2*3',          expect: [[16, 1, 16, 1]]                                        },
+    { str: '20!5',             expect: [[15, 1, 15, 1]]                                        },
+    // Bad inputs
+    { str: 'L',                expect: undefined                                               },
+    { str: 'L10-L',            expect: undefined                                               },
+    { str: 'LL10',             expect: undefined                                               },
+    { str: '12L',              expect: undefined                                               },
+    { str: '10:20',            expect: undefined                                               },
+    { str: '10,5',             expect: undefined                                               },
+];
+
+/**
+ * Conflicting Terminals Test Inputs
+ * 
+ * These are input strings that are tested when the `SELECT_SEPARATOR` is assigned `,`, which is 
+ * already the symbol of the `COORDINATE_SEPARATOR`. Such a syntax is ambiguous, so every input is
+ * expected to be rejected.
+ */
+export const conflictingTerminalsTestInputs: MultiTargetInput[] = [
+    { str: '10',               expect: undefined                                               },
+    { str: '10,20',            expect: undefined                                               },
+    { str: '10:20',            expect: undefined                                               },
+];
+
+/**
+ * Rejection Test Inputs
+ * 
+ * These are input strings and the expected description of why the finite automation rejects them, 
+ * which lists the tokens that could have been read instead. Inputs that the finite automation 
+ * accepts but whose targets cannot be found in the document have no description.
+ */
+export const rejectionTestInputs: RejectionInput[] = [
+    // Unexpected tokens
+    { str: '10:20/2/',         expect: "Unexpected '/' at position 8; expected digit, ',', 'h', 'l', 'H', 'L', 'f', 't' or ';'" },
+    { str: '5,vx',             expect: "Unexpected 'x' at position 4; expected '-', '+', digit or '('" },
+    { str: "'A",               expect: "Unexpected 'A' at position 2; expected mark name" },
+    // Positions count whitespace
+    { str: '5 ,  v  x',        expect: "Unexpected 'x' at position 9; expected '-', '+', digit or '('" },
+    // Incomplete inputs
+    { str: '10:20/',           expect: 'Unexpected end of input; expected digit' },
+    { str: '@',                expect: 'Unexpected end of input; expected symbol name' },
+    // Accepted inputs
+    { str: '10:20',            expect: undefined },
+    { str: '10:20/0',          expect: undefined },
+];
+
+/**
+ * GitHub-Like Rejection Test Inputs
+ * 
+ * Same as `rejectionTestInputs`, except that the input strings are typed with the 'github-like' 
+ * syntax profile, so the expected tokens are described with the symbols of that profile.
+ */
+export const githubLikeRejectionTestInputs: RejectionInput[] = [
+    { str: 'L',                expect: 'Unexpected end of input; expected digit' },
+    { 
+        str: '12L',
+        expect: "Unexpected 'L' at position 3; expected digit, '+', '!', '*', ')', '%', '}', '{', '[', ']', 'C', 'h', 'l', 'H', 'E', 'f', 't', '-', '|', '#', '=', '.' or ';'"
+    },
+];
+
+/**
+ * Incremental Test Inputs
+ * 
+ * These are sequences of input strings that are each run through the same incremental finite 
+ * automation, like the inputs that the user goes through while typing and deleting in the dialog. 
+ * Every input is expected to have the same meaning as when it is run through a fresh finite 
+ * automation.
+ */
+export const incrementalTestInputs: string[][] = [
+    // Typing one token at a time
+    ['1', '10', '10:', '10:2', '10:20', '10:20,', '10:20,5'],
+    // Deleting and retyping
+    ['10:20', '10:2', '10:', '10:3', '10:30l'],
+    // Deleting a rejected token
+    ['10x', '10x5', '10x', '10', '10;5'],
+    // Replacing the whole input and editing the middle of it
+    ['50%', '/foo/', '/fo/', "'a", '10:20', '15:20', '15:20'],
+    // Whitespace, patterns and find character terms
+    ['10 ', '10 f', '10 f ', '10 f;', '/a b', '/a\\/b/', ''],
+];
+
+/**
+ * Paragraph Test Inputs
+ * 
+ * These are input strings with line terms that are the blank lines separating the paragraphs of the
+ * document. The cursor is on the first line of the paragraph from line 50 to line 57, which has a 
+ * blank line on either side of it.
+ */
+export const paragraphTestInputs: MultiTargetInput[] = [
+    // Next and previous boundaries
+    { str: '}',                expect: [[58, 1, 58, 1]]                                        },
+    { str: '{',                expect: [[49, 1, 49, 1]]                                        },
+    // Counts
+    { str: '3}',               expect: [[68, 1, 68, 1]]                                        },
+    { str: '2{',               expect: [[42, 1, 42, 1]]                                        },
+    { str: '(1+1)}',           expect: [[63, 1, 63, 1]]                                        },
+    // Counts past the last boundary
+    { str: '100}',             expect: [[100, 5, 100, 5]]                                      },
+    { str: '100{',             expect: [[1, 5, 1, 5]]                                          },
+    // With character terms
+    { str: '},3',              expect: [[58, 3, 58, 3]]                                        },
+    { str: '}L',               expect: [[58, 5, 58, 5]]                                        },
+    // Paragraph terms as the ends of selections
+    { str: '{:}',              expect: [[49, 1, 58, 1]]                                        },
+    { str: '{;}',              expect: [[49, 1, 49, 1], [58, 1, 58, 1]]                        },
+    // Bad paragraph terms
+    { str: '}}',               expect: undefined                                               },
+    { str: '}5',               expect: undefined                                               },
+    { str: '}%',               expect: undefined                                               },
+    { str: '(2}',              expect: undefined                                               },
+    // The `,` after a line term is always read as a `COORDINATE_SEPARATOR`
+    { str: '{,}',              expect: undefined                                               },
+];
+
+/**
+ * Adjustment Test Inputs
+ * 
+ * These are input strings that move only one end of the primary selection, which is expected to 
+ * keep the other end where it is. Unlike the other tests, these depend on the primary selection 
+ * being `INITIAL_SELECTION`, with its `anchor` at 60,60 and its `active` at 50,50. The target is 
+ * relative to the end that is moved.
+ */
+export const adjustmentTestInputs: MultiTargetInput[] = [
+    // Moving the active end
+    { str: '>+5',              expect: [[60, 60, 55, 21]]                                      },
+    { str: '>-5',              expect: [[60, 60, 45, 9]]                                       },
+    { str: '>70,3',            expect: [[60, 60, 70, 3]]                                       },
+    { str: '>L',               expect: [[60, 60, 50, 102]]                                     },
+    { str: '>}',               expect: [[60, 60, 58, 1]]                                       },
+    // Moving the anchor end
+    { str: '<h',               expect: [[60, 5, 50, 50]]                                       },
+    { str: '<L',               expect: [[60, 104, 50, 50]]                                     },
+    { str: '<-10',             expect: [[50, 1, 50, 50]]                                       },
+    // Each target adjusts the selection as it was when the dialog was opened
+    { str: '>+5;<h',           expect: [[60, 60, 55, 21], [60, 5, 50, 50]]                     },
+    // Stepped from the end that is kept
+    { str: '>55/5',            expect: [[60, 5, 60, 5], [55, 21, 55, 21]]                      },
+    // Bad adjustments
+    { str: '>',                expect: undefined                                               },
+    { str: '>>5',              expect: undefined                                               },
+    { str: '5>',               expect: undefined                                               },
+    { str: '<:5',              expect: undefined                                               },
+    { str: '>5:6',             expect: undefined                                               },
+];
+
+/** 
+ * The cursors for the per cursor tests, which are empty selections at 50,50 (the primary cursor), 
+ * 20,10 and 80,1 (in 1-based numbers).
+ */
+export const testCursors: Selection[] = [
+    new Selection(49, 49, 49, 49),
+    new Selection(19, 9, 19, 9),
+    new Selection(79, 0, 79, 0)
+];
+
+/**
+ * Per Cursor Test Inputs
+ * 
+ * These are input strings where the targets with a per cursor prefix are resolved against each of
+ * the `testCursors`, which is expected to result in one selection per cursor (starting with the 
+ * primary cursor). The other targets are only resolved against the primary cursor.
+ */
+export const perCursorTestInputs: MultiTargetInput[] = [
+    // Only the primary cursor without the prefix
+    { str: '+5',               expect: [[55, 21, 55, 21]]                                      },
+    // Relative to each cursor
+    { str: '&+5',              expect: [[55, 21, 55, 21], [25, 9, 25, 9], [85, 9, 85, 9]]      },
+    { str: '&:+3',             expect: [[50, 50, 53, 13], [20, 10, 23, 1], [80, 1, 83, 1]]     },
+    { str: '&>+2',             expect: [[50, 50, 52, 9], [20, 10, 22, 1], [80, 1, 82, 1]]      },
+    // An absolute target is the same for every cursor, so it is only selected once
+    { str: '&10',              expect: [[10, 1, 10, 1]]                                        },
+    // The prefix only applies to the target that it is in
+    { str: '&+5;10',           expect: [[55, 21, 55, 21], [25, 9, 25, 9], [85, 9, 85, 9], [10, 1, 10, 1]] },
+    { str: '5;&+1',            expect: [[5, 1, 5, 1], [51, 5, 51, 5], [21, 21, 21, 21], [81, 21, 81, 21]] },
+    // Bad prefixes
+    { str: '&',                expect: undefined                                               },
+    { str: '5&',               expect: undefined                                               },
+    { str: '+5&',              expect: undefined                                               },
+    { str: '&;5',              expect: undefined                                               },
+];
+
+/**
+ * Per Cursor Setting Test Inputs
+ * 
+ * Same as `perCursorTestInputs`, except that the per cursor setting is enabled, so that every target
+ * is resolved against each of the `testCursors` even without the prefix.
+ */
+export const perCursorSettingTestInputs: MultiTargetInput[] = [
+    { str: '+5',               expect: [[55, 21, 55, 21], [25, 9, 25, 9], [85, 9, 85, 9]]      },
+    { str: '&+5',              expect: [[55, 21, 55, 21], [25, 9, 25, 9], [85, 9, 85, 9]]      },
+    { str: '-5;10',            expect: [[45, 9, 45, 9], [15, 1, 15, 1], [75, 1, 75, 1], [10, 1, 10, 1]] },
+    // A target without relative terms is only selected once
+    { str: '10:20',            expect: [[10, 1, 20, 17]]                                       },
+];
+
+/**
+ * Indentation Block Test Inputs
+ * 
+ * These are input strings with indentation block terms, which are resolved against the `testCursors`.
+ * The lines of the 'lorem-ipsum' document are indented in steps of 4 spaces, so the blocks are nested
+ * like stairs (for example, the innermost block of the line 20 cursor is lines 20 to 21, and the block
+ * that it is nested under is lines 19 to 21).
+ */
+export const indentationBlockTestInputs: MultiTargetInput[] = [
+    // Every line is in the block of the primary cursor, since its line is not indented
+    { str: '[',                expect: [[1, 5, 1, 5]]                                          },
+    { str: ']',                expect: [[100, 5, 100, 5]]                                      },
+    // Relative to each of the `testCursors`, whose lines are indented
+    { str: '&[',               expect: [[1, 5, 1, 5], [20, 17, 20, 17], [80, 17, 80, 17]]      },
+    { str: '&]',               expect: [[100, 5, 100, 5], [21, 21, 21, 21], [81, 21, 81, 21]]  },
+    // Counts for outer blocks
+    { str: '&2[',              expect: [[1, 5, 1, 5], [19, 13, 19, 13], [79, 13, 79, 13]]      },
+    { str: '&2]',              expect: [[100, 5, 100, 5], [21, 21, 21, 21], [81, 21, 81, 21]]  },
+    { str: '&(1+2)[',          expect: [[1, 5, 1, 5], [18, 9, 18, 9], [78, 9, 78, 9]]          },
+    // Counts past the outermost block, which every cursor resolves to the same line
+    { str: '&100[',            expect: [[1, 5, 1, 5]]                                          },
+    // With character terms
+    { str: '],3',              expect: [[100, 3, 100, 3]]                                      },
+    { str: ']L',               expect: [[100, 23, 100, 23]]                                    },
+    // Selecting the whole block
+    { str: '&[:]',             expect: [[1, 5, 100, 5], [20, 17, 21, 21], [80, 17, 81, 21]]    },
+    // Bad indentation block terms
+    { str: '[[',               expect: undefined                                               },
+    { str: ']5',               expect: undefined                                               },
+    { str: ']%',               expect: undefined                                               },
+    { str: '(2[',              expect: undefined                                               },
+    // The `,` after a line term is always read as a `COORDINATE_SEPARATOR`
+    { str: '[,]',              expect: undefined                                               },
+];
+
+/**
+ * Bracket Test Inputs
+ * 
+ * These are input strings with matching bracket terms or enclosing pair selections, which are run 
+ * in the 'brackets' document with the cursor just before the `[` in line 3.
+ */
+export const bracketTestInputs: MultiTargetInput[] = [
+    // The bracket that matches the `[` at the cursor
+    { str: 'm',                expect: [[3, 21, 3, 21]]                                        },
+    { str: ':m',               expect: [[3, 16, 3, 21]]                                        },
+    // The inside of the pair around the cursor (which is not inside the `[]` that it is just before)
+    { str: '=',                expect: [[2, 17, 4, 5]]                                         },
+    // The inside of the pair around a coordinate
+    { str: '2L=',              expect: [[2, 17, 4, 5]]                                         },
+    { str: '7,18=',            expect: [[7, 17, 7, 30]]                                        },
+    { str: '7,22=',            expect: [[7, 21, 7, 29]]                                        },
+    { str: 'm=',               expect: [[3, 17, 3, 21]]                                        },
+    // The brackets in the comment and the string are skipped
+    { str: '1L=',              expect: [[1, 23, 8, 1]]                                         },
+    // An apostrophe is not the start of a string
+    { str: '9,8=',             expect: [[9, 7, 9, 11]]                                         },
+    // Multiple targets
+    { str: 'm;7,22=',          expect: [[3, 21, 3, 21], [7, 21, 7, 29]]                        },
+    // Bad bracket terms
+    { str: 'mm',               expect: undefined                                               },
+    { str: 'm5',               expect: undefined                                               },
+    { str: '%',                expect: undefined                                               },
+    { str: '==',               expect: undefined                                               },
+    { str: '=5',               expect: undefined                                               },
+    { str: ':=',               expect: undefined                                               },
+    // Without a pair around the coordinate
+    { str: '1,1=',             expect: undefined                                               },
+];
+
+/**
+ * Count Test Inputs
+ * 
+ * These are input strings that select a number of lines (or characters with the `c` suffix) starting
+ * from a coordinate.
+ */
+export const countTestInputs: MultiTargetInput[] = [
+    // Lines from an absolute or a relative line
+    { str: '20.5',             expect: [[20, 1, 24, 104]]                                      },
+    { str: '20.1',             expect: [[20, 1, 20, 120]]                                      },
+    { str: '+5.3',             expect: [[55, 1, 57, 126]]                                      },
+    // Lines past the end of the document
+    { str: '98.5',             expect: [[98, 1, 100, 23]]                                      },
+    // Characters from a coordinate, where a line break counts as one character
+    { str: '20,5.12c',         expect: [[20, 5, 20, 17]]                                       },
+    { str: '20L.3c',           expect: [[20, 120, 21, 3]]                                      },
+    // Characters past the end of the document
+    { str: '$,20.5c',          expect: [[100, 20, 100, 23]]                                    },
+    // Multiple targets
+    { str: '20.2;20,5.12c',    expect: [[20, 1, 21, 79], [20, 5, 20, 17]]                      },
+    // Bad counts
+    { str: '20.0',             expect: undefined                                               },
+    { str: '20.',              expect: undefined                                               },
+    { str: '.5',               expect: undefined                                               },
+    { str: '20.c',             expect: undefined                                               },
+    { str: '20.5c5',           expect: undefined                                               },
+    { str: '20:30.5',          expect: undefined                                               },
+    { str: '20.(2)',           expect: undefined                                               },
+    // The middle of the viewport is not a count separator
+    { str: '20~5',             expect: undefined                                               },
+];
+
 // ------------------------------------------------------------------
 // Known Bad Inputs
 //
@@ -331,7 +1246,6 @@ export const knownBadTestInputs: Input[] = [
     { str: '14i', expect: undefined },
     { str: 'please-reject-me', expect: undefined },
     { str: 'random', expect: undefined },
-    { str: '$', expect: undefined },
     // Plain symbols
     { str: '+', expect: undefined },
     { str: '-', expect: undefined },
@@ -1,12 +1,14 @@
-import { verifyInputs } from './test-utilities.test';
-import { goToTestInputs, selectionTestInputs, selectionFromCursorTestInputs, quickSelectionTestInputs, quickSelectionFromCursorTestInputs, whitespaceIgnoreTestInputs, knownBadTestInputs } from './inputs.test';
-import { loremIpsumEditor } from './extension.test';
+import { verifyInputs, verifyRejections, verifyIncrementalRuns, withSelections } from './test-utilities.test';
+import { goToTestInputs, selectionTestInputs, selectionFromCursorTestInputs, quickSelectionTestInputs, quickSelectionFromCursorTestInputs, whitespaceIgnoreTestInputs, knownBadTestInputs, percentageTestInputs, fromEndTestInputs, expressionTestInputs, multipleTargetTestInputs, blockSelectionTestInputs, offsetTestInputs, markTestInputs, testMarks, symbolTestInputs, testSymbols, searchTestInputs, findCharacterTestInputs, viewportTestInputs, testViewport, steppedRangeTestInputs, visualColumnTestInputs, visualColumnSettingTestInputs, graphemeClusterTestInputs, vimLikeTestInputs, githubLikeTestInputs, conflictingTerminalsTestInputs, rejectionTestInputs, githubLikeRejectionTestInputs, incrementalTestInputs, paragraphTestInputs, adjustmentTestInputs, testCursors, perCursorTestInputs, perCursorSettingTestInputs, indentationBlockTestInputs, bracketTestInputs, countTestInputs, astralFindCharacterTestInputs } from './inputs.test';
+import { resolveSyntax } from '../grammar/profile';
+import { Configuration } from '../configuration';
+import { loremIpsumEditor, columnsEditor, bracketsEditor } from './extension.test';
 
 export function runSuite(): void {
     
     // Load extension setting's at the time the tests are run
     // TODO: Change this to load defaults (later)
-    const settings = Settings.load();
+    const settings = Configuration.get();
 
     // Launch the tests using the Mocha JS framework
     suite('Parser Tests', () => {
@@ -38,6 +40,145 @@ export function runSuite(): void {
             `7 - Known Bad Inputs`,
             async () => await verifyInputs(await loremIpsumEditor, settings, knownBadTestInputs)
         );
+        test (
+            `8 - Percentage`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, percentageTestInputs)
+        );
+        test (
+            `9 - From End`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, fromEndTestInputs)
+        );
+        test (
+            `10 - Expressions`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, expressionTestInputs)
+        );
+        test (
+            `11 - Multiple Targets`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, multipleTargetTestInputs)
+        );
+        test (
+            `12 - Block Selection`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, blockSelectionTestInputs)
+        );
+        test (
+            `13 - Offsets`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, offsetTestInputs)
+        );
+        test (
+            `14 - Marks`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, markTestInputs, testMarks)
+        );
+        test (
+            `15 - Symbols`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, symbolTestInputs, new Map(), testSymbols)
+        );
+        test (
+            `16 - Searches`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, searchTestInputs)
+        );
+        test (
+            `17 - Find Characters`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, findCharacterTestInputs)
+        );
+        test (
+            `18 - Viewport`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, viewportTestInputs, new Map(), new Map(), testViewport)
+        );
+        test (
+            `19 - Stepped Ranges`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, steppedRangeTestInputs)
+        );
+        test (
+            `20 - Visual Columns`,
+            async () => await verifyInputs(await columnsEditor, settings, visualColumnTestInputs)
+        );
+        test (
+            `21 - Visual Columns Setting`,
+            async () => await verifyInputs(await columnsEditor, { ...settings, visualColumns: true }, visualColumnSettingTestInputs)
+        );
+        test (
+            `22 - Grapheme Clusters`,
+            async () => await verifyInputs(await columnsEditor, { ...settings, countGraphemeClusters: true }, graphemeClusterTestInputs)
+        );
+        test (
+            `23 - Vim-Like Syntax`,
+            async () => await verifyInputs(await loremIpsumEditor, { ...settings, syntax: resolveSyntax('vim-like', {}) }, vimLikeTestInputs)
+        );
+        test (
+            `24 - GitHub-Like Syntax`,
+            async () => await verifyInputs(await loremIpsumEditor, { ...settings, syntax: resolveSyntax('github-like', {}) }, githubLikeTestInputs)
+        );
+        test (
+            `25 - Conflicting Terminals`,
+            async () => await verifyInputs(
+                await loremIpsumEditor, 
+                { ...settings, syntax: resolveSyntax('default', { SELECT_SEPARATOR: ',' }) }, 
+                conflictingTerminalsTestInputs
+            )
+        );
+        test (
+            `26 - Rejection Descriptions`,
+            () => verifyRejections(rejectionTestInputs)
+        );
+        test (
+            `27 - GitHub-Like Rejection Descriptions`,
+            () => {
+                const syntax = resolveSyntax('github-like', {});
+                if (!syntax.ok) {
+                    throw new Error(syntax.message);
+                }
+                verifyRejections(githubLikeRejectionTestInputs, syntax.terminals);
+            }
+        );
+        test (
+            `28 - Incremental Runs`,
+            () => verifyIncrementalRuns(incrementalTestInputs)
+        );
+        test (
+            `29 - Paragraphs`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, paragraphTestInputs)
+        );
+        test (
+            `30 - Adjust One End`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, adjustmentTestInputs)
+        );
+        test (
+            `31 - Per Cursor`,
+            async () => {
+                const editor = await loremIpsumEditor;
+                withSelections(editor, testCursors, () => verifyInputs(editor, settings, perCursorTestInputs));
+            }
+        );
+        test (
+            `32 - Per Cursor Setting`,
+            async () => {
+                const editor = await loremIpsumEditor;
+                withSelections(
+                    editor, 
+                    testCursors, 
+                    () => verifyInputs(editor, { ...settings, perCursor: true }, perCursorSettingTestInputs)
+                );
+            }
+        );
+        test (
+            `33 - Indentation Blocks`,
+            async () => {
+                const editor = await loremIpsumEditor;
+                withSelections(editor, testCursors, () => verifyInputs(editor, settings, indentationBlockTestInputs));
+            }
+        );
+        test (
+            `34 - Brackets`,
+            async () => await verifyInputs(await bracketsEditor, settings, bracketTestInputs)
+        );
+        test (
+            `35 - Counts`,
+            async () => await verifyInputs(await loremIpsumEditor, settings, countTestInputs)
+        );
+        test (
+            `36 - Find Characters Outside The Basic Multilingual Plane`,
+            async () => await verifyInputs(await columnsEditor, settings, astralFindCharacterTestInputs)
+        );
     });
 
 }
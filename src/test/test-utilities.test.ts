@@ -1,6 +1,10 @@
 import * as assert from 'assert';
-import { extensions, Selection, window, Uri, TextEditor } from 'vscode';
+import { extensions, Selection, window, Uri, TextEditor, Position, Range, ViewColumn, EventEmitter, InputBox } from 'vscode';
 import { EXT_IDENT } from '../extension';
+import { describeRejection, IncrementalFiniteAutomation } from '../finite-automation/finite-automation';
+import { parseInput } from '../finite-automation/parse-input';
+import { Terminals, DEFAULT_TERMINALS } from '../grammar/terminal';
+import { Configuration } from '../configuration';
 
 /** 
  * The following array contains the length of each line in the 'lorem-ipsum.txt' document. 
@@ -64,6 +68,26 @@ export type Input = {
     expect: SelectionOneBased | undefined,
 };
 
+/** 
+ * Same as `Input` but for input strings that specify multiple targets, where one selection is 
+ * expected per target.
+ */
+export type MultiTargetInput = { 
+    str: string, 
+    expect: SelectionOneBased[] | undefined,
+};
+
+/** 
+ * Type to contain an input string and the expected description of why the finite automation rejects
+ * it.
+ * 
+ * If `expect` is `undefined`, that means we expect the finite automation to accept the input.
+ */
+export type RejectionInput = {
+    str: string,
+    expect: string | undefined,
+};
+
 /**
  * Open a 'lorem-ipsum' text document for testing. The cursor is set to `INITIAL_SELECTION` and that 
  * is used as a starting point to test the extension.
@@ -81,6 +105,52 @@ export async function openLoremIpsum(startingSelection: Selection): Promise<Text
     }
 }
 
+/**
+ * Open a 'columns' text document for testing, which has lines with tabs and lines with grapheme 
+ * clusters that take up more than one UTF-16 code unit. The cursor is set to `startingSelection`. 
+ * 
+ * The document is opened beside the 'lorem-ipsum' document, so that the editors of both documents 
+ * stay visible. The tab size of the editor is fixed at `4` so that the tests do not depend on the
+ * user's settings.
+ */
+export async function openColumns(startingSelection: Selection): Promise<TextEditor> {
+    const extension = extensions.getExtension(`OnlyLys.${EXT_IDENT}`);
+    if (extension) {
+        const columnsFilePath = extension.extensionPath + '/test-documents/columns.txt';
+        const columnsEditor = await window.showTextDocument(
+            Uri.file(columnsFilePath), 
+            { viewColumn: ViewColumn.Beside, preserveFocus: true }
+        );
+        columnsEditor.options   = { tabSize: 4 };
+        columnsEditor.selection = startingSelection;
+        return columnsEditor;
+    } else {
+        throw new Error('Unable to open columns test file!');
+    }
+}
+
+/**
+ * Open a 'brackets' text document for testing, which has nested pairs of brackets as well as some
+ * brackets in a comment and in a string. The cursor is set to `startingSelection`. 
+ * 
+ * The document is opened in the third column, so that the editors of the other documents stay 
+ * visible.
+ */
+export async function openBrackets(startingSelection: Selection): Promise<TextEditor> {
+    const extension = extensions.getExtension(`OnlyLys.${EXT_IDENT}`);
+    if (extension) {
+        const bracketsFilePath = extension.extensionPath + '/test-documents/brackets.txt';
+        const bracketsEditor = await window.showTextDocument(
+            Uri.file(bracketsFilePath), 
+            { viewColumn: ViewColumn.Three, preserveFocus: true }
+        );
+        bracketsEditor.selection = startingSelection;
+        return bracketsEditor;
+    } else {
+        throw new Error('Unable to open brackets test file!');
+    }
+}
+
 /**
  * Parse the input string in an `Input` type and check that the returned result is as expected.
  * 
@@ -88,33 +158,154 @@ export async function openLoremIpsum(startingSelection: Selection): Promise<Text
  * @param settings The settings of the extension at the time of testing.
  * @param inputs The `Input`s that contain each contain an input string to pass to the parser as 
  * well as an expected output to compare to the parser's output.
+ * @param marks The marks that the input strings can refer to.
+ * @param symbols The document symbols that the input strings can refer to.
+ * @param viewport The range of lines that viewport terms in the input strings refer to.
  */
-export function verifyInputs(editor: TextEditor, settings: Settings, inputs: Iterable<Input>): void {
+export function verifyInputs(
+    editor:   TextEditor, 
+    settings: Configuration, 
+    inputs:   Iterable<Input | MultiTargetInput>,
+    marks:    ReadonlyMap<string, Position> = new Map(),
+    symbols:  ReadonlyMap<string, Position> = new Map(),
+    viewport: Range = editor.visibleRanges[0]
+): void {
     for (const input of inputs) {
         assert.deepStrictEqual(
-            Parser.parse(input.str, editor, settings), 
-            getSelection(input), 
+            parseInput(input.str, editor, settings, marks, symbols, viewport), 
+            getSelections(input), 
             `Result From Parser Does Not Match Expected Value (Caused By Input: ${input.str})`
         );
     }
 
     /** 
-     * Convert the 1-based selection in an `Input` to 0-based. This function may throw if the
-     * conversion fails (e.g. due to any post-converted numbers being negative).
+     * Convert the 1-based selections in an `Input` or `MultiTargetInput` to 0-based. This function 
+     * may throw if the conversion fails (e.g. due to any post-converted numbers being negative).
      * 
      * If the 1-based selection was initially `undefined` then the return value is `undefined`. 
-     * Otherwise the return value is never `undefined`.
+     * Otherwise the return value is never `undefined`, and for an `Input` it will contain exactly
+     * one selection.
      */
-    function getSelection(input: Input): Selection | undefined {
+    function getSelections(input: Input | MultiTargetInput): Selection[] | undefined {
         if (!input.expect) {
             return undefined;
         } else {
             try {
-                const [a, b, c, d] = input.expect;
-                return new Selection(a - 1, b - 1, c - 1, d - 1);
+                const expect = isMultiTarget(input.expect) ? input.expect : [input.expect];
+                return expect.map(([a, b, c, d]) => new Selection(a - 1, b - 1, c - 1, d - 1));
             } catch (err) {
                 throw new Error(`${err} (Selection Conversion Failure: Caused By Input: ${input.str})`);
             }
         }
     }
+
+    function isMultiTarget(expect: SelectionOneBased | SelectionOneBased[]): expect is SelectionOneBased[] {
+        return Array.isArray(expect[0]);
+    }
+}
+
+/**
+ * Check that the finite automation describes the rejection of each input string as expected.
+ * 
+ * @param inputs The `RejectionInput`s that each contain an input string and the expected description.
+ * @param terminals The symbols that the input strings are typed with.
+ */
+export function verifyRejections(inputs: Iterable<RejectionInput>, terminals: Terminals = DEFAULT_TERMINALS): void {
+    for (const input of inputs) {
+        assert.strictEqual(
+            describeRejection(input.str, terminals),
+            input.expect,
+            `Rejection Description Does Not Match Expected Value (Caused By Input: ${input.str})`
+        );
+    }
+}
+
+/**
+ * Run each sequence of input strings through one incremental finite automation, in order, and check
+ * that the meaning of every input is the same as when it is run through a fresh finite automation.
+ * 
+ * @param sequences The sequences of input strings, where each sequence is like the inputs that the
+ * user goes through while typing in the dialog.
+ */
+export function verifyIncrementalRuns(sequences: Iterable<ReadonlyArray<string>>): void {
+    for (const sequence of sequences) {
+        const finiteAutomation = new IncrementalFiniteAutomation();
+        for (const input of sequence) {
+            assert.deepStrictEqual(
+                finiteAutomation.run(input),
+                new IncrementalFiniteAutomation().run(input),
+                `Incremental Run Does Not Match Fresh Run (Caused By Input: ${input})`
+            );
+        }
+    }
+}
+
+/**
+ * Temporarily replace the selections of `editor` with `selections` while `callback` is called. The 
+ * previous selections are restored afterwards, even if `callback` throws.
+ */
+export function withSelections(editor: TextEditor, selections: Selection[], callback: () => void): void {
+    const previous = editor.selections;
+    editor.selections = selections;
+    try {
+        callback();
+    } finally {
+        editor.selections = previous;
+    }
+}
+
+/**
+ * Stand-in for the input box of a dialog, so that the tests can type into it and press `Enter` 
+ * without a user.
+ */
+export class TestInputBox {
+
+    private readonly changeEmitter = new EventEmitter<string>();
+    private readonly acceptEmitter = new EventEmitter<void>();
+    private readonly hideEmitter   = new EventEmitter<void>();
+
+    public readonly inputBox = {
+        value:             '',
+        placeholder:       '',
+        prompt:            '',
+        validationMessage: '',
+        onDidChangeValue:  this.changeEmitter.event,
+        onDidAccept:       this.acceptEmitter.event,
+        onDidHide:         this.hideEmitter.event,
+        show:              () => {},
+        dispose:           () => {}
+    } as InputBox;
+
+    /** Replace the value in the input box, as if the user typed it in. */
+    public type(value: string): void {
+        this.inputBox.value = value;
+        this.changeEmitter.fire(value);
+    }
+
+    /** Press `Enter`. */
+    public accept(): void {
+        this.acceptEmitter.fire();
+    }
+
+}
+
+/**
+ * Call `callback` with a `TestInputBox` that is used by the dialogs created in the meantime instead 
+ * of an input box of VS Code. The input box of VS Code is restored afterwards, even if `callback` 
+ * throws.
+ */
+export async function withTestInputBox(callback: (testInputBox: TestInputBox) => Promise<void>): Promise<void> {
+    const { createInputBox } = window;
+    const testInputBox = new TestInputBox();
+    window.createInputBox = () => testInputBox.inputBox;
+    try {
+        await callback(testInputBox);
+    } finally {
+        window.createInputBox = createInputBox;
+    }
+}
+
+/** Wait for the asynchronous feedback of a dialog (such as that of a pending validation). */
+export function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 100));
 }